@@ -0,0 +1,237 @@
+import * as fs from "fs";
+import * as path from "path";
+import { type ParsedTask, type VaultConfig, listTaskFiles } from "./vault-sync.js";
+import { isClosedStatus } from "./workflow.js";
+import { getFollowUpSummary } from "./follow-up-tracker.js";
+import { localDate, localTime, todayIn } from "./task-dates.js";
+
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  details: Record<string, unknown>;
+}
+
+export interface DailyNotesConfig {
+  folder: string;
+  template: string;
+  autoCreate: boolean;
+}
+
+export interface TriageSummary {
+  count: number;
+  summary: Record<string, number>;
+}
+
+function jsonResult(payload: Record<string, unknown>): ToolResult {
+  const clean = JSON.parse(JSON.stringify(payload));
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(clean, null, 2) }],
+    details: clean,
+  };
+}
+
+export function resolveDailyNotes(raw: unknown = {}): DailyNotesConfig {
+  const input = (raw || {}) as Record<string, unknown>;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid dailyNotes config: ${message}`);
+  };
+  const vaultPath = (field: string, fallback: string): string => {
+    const value = input[field] ?? fallback;
+    if (
+      typeof value !== "string" ||
+      !value.trim() ||
+      path.isAbsolute(value) ||
+      path.normalize(value).startsWith("..")
+    ) {
+      fail(`"${field}" must be a path inside the vault`);
+    }
+    return value as string;
+  };
+
+  const autoCreate = input.autoCreate ?? false;
+  if (typeof autoCreate !== "boolean") fail('"autoCreate" must be true or false');
+
+  return {
+    folder: vaultPath("folder", "Daily"),
+    template: vaultPath("template", path.join("Templates", "Daily.md")),
+    autoCreate: autoCreate as boolean,
+  };
+}
+
+export function dailyNotePath(config: VaultConfig, date: string): string {
+  return path.join(config.dailyNotesFolder, `${date}.md`);
+}
+
+function markers(key: string): [string, string] {
+  return [`%% daily:${key}:start %%`, `%% daily:${key}:end %%`];
+}
+
+function readSection(content: string, key: string): string[] | null {
+  const [start, end] = markers(key);
+  const from = content.indexOf(start);
+  const to = from < 0 ? -1 : content.indexOf(end, from);
+  if (to < 0) return null;
+  return content
+    .slice(from + start.length, to)
+    .split("\n")
+    .slice(1, -1);
+}
+
+// Replaces the lines between a section's markers, or appends the section to
+// the end of the note the first time; text outside the markers is untouched.
+function writeSection(content: string, key: string, lines: string[]): string {
+  const [start, end] = markers(key);
+  const block = [start, ...lines, end].join("\n");
+  const from = content.indexOf(start);
+  const to = from < 0 ? -1 : content.indexOf(end, from);
+  if (to < 0) return `${content.trimEnd()}\n\n${block}\n`;
+  return content.slice(0, from) + block + content.slice(to + end.length);
+}
+
+function appendToSection(content: string, key: string, heading: string, entry: string): string {
+  const lines = readSection(content, key) ?? [heading, ""];
+  while (lines.length > 2 && !lines[lines.length - 1].trim()) lines.pop();
+  return writeSection(content, key, [...lines, entry]);
+}
+
+function taskLine(task: ParsedTask, details: string[]): string {
+  return [`- [[${task.title}]]`, ...details].join(" · ");
+}
+
+function completedSection(config: VaultConfig, tasks: ParsedTask[], date: string): string[] {
+  const tz = config.timezone;
+  const done = tasks
+    .filter((t) => t.frontmatter.completed_at && localDate(t.frontmatter.completed_at, tz) === date)
+    .sort((a, b) => a.frontmatter.completed_at!.localeCompare(b.frontmatter.completed_at!));
+  const lines = ["## Completed today", ""];
+  if (done.length === 0) lines.push("_Nothing completed yet._");
+  for (const task of done) {
+    const details: string[] = [];
+    const time = localTime(task.frontmatter.completed_at!, tz);
+    if (time) details.push(time);
+    if (task.frontmatter.project) details.push(task.frontmatter.project);
+    lines.push(taskLine(task, details));
+  }
+  return lines;
+}
+
+function dueSection(config: VaultConfig, tasks: ParsedTask[], date: string): string[] {
+  const tz = config.timezone;
+  const due = tasks
+    .filter(
+      (t) =>
+        t.frontmatter.due_date &&
+        !isClosedStatus(config.workflow, t.frontmatter.status) &&
+        localDate(t.frontmatter.due_date, tz) <= date
+    )
+    .sort((a, b) => a.frontmatter.due_date!.localeCompare(b.frontmatter.due_date!));
+  const lines = ["## Due today", ""];
+  if (due.length === 0) lines.push("_Nothing due._");
+  for (const task of due) {
+    const dueDate = localDate(task.frontmatter.due_date!, tz);
+    const details = [task.frontmatter.status];
+    if (dueDate < date) details.push(`overdue since ${dueDate}`);
+    else {
+      const time = localTime(task.frontmatter.due_date!, tz);
+      if (time) details.push(`by ${time}`);
+    }
+    if (task.frontmatter.assignee === "assistant") details.push("assistant");
+    lines.push(taskLine(task, details));
+  }
+  return lines;
+}
+
+function followUpSection(config: VaultConfig): string[] {
+  const lines = ["## Follow-ups", ""];
+  if (!fs.existsSync(config.followUpsFile)) {
+    lines.push("_Follow-ups have not been checked yet._");
+    return lines;
+  }
+  const link = path.basename(config.followUpsFile, ".md");
+  lines.push(`${getFollowUpSummary(config.followUpsFile)} See [[${link}]].`);
+  return lines;
+}
+
+function triageEntry(triage: TriageSummary, time: string): string {
+  const counts = Object.entries(triage.summary)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([category, count]) => `${category} ${count}`);
+  const emails = `${triage.count} email${triage.count === 1 ? "" : "s"}`;
+  return [`- ${time}`, emails, ...(counts.length > 0 ? [counts.join(", ")] : [])].join(" · ");
+}
+
+function newDailyNote(config: VaultConfig, date: string, time: string): string {
+  if (!fs.existsSync(config.dailyTemplateFile)) return `# ${date}\n`;
+  return fs
+    .readFileSync(config.dailyTemplateFile, "utf-8")
+    .replace(/\{\{date\}\}/g, date)
+    .replace(/\{\{title\}\}/g, date)
+    .replace(/\{\{time\}\}/g, time);
+}
+
+// Refreshes the agent's sections of a daily note: completed and due tasks and
+// the follow-up summary are rebuilt each time, while triage runs and log
+// entries are appended. A missing note is only created when asked to or when
+// autoDailyNote is on.
+export function updateDailyNote(
+  config: VaultConfig,
+  options: {
+    date?: string;
+    create?: boolean;
+    triage?: TriageSummary;
+    log?: string;
+    now?: Date;
+  } = {}
+): { path: string; date: string; created: boolean; logged: boolean } | null {
+  const now = options.now ?? new Date();
+  const date = options.date ?? todayIn(config.timezone, now);
+  const time = localTime(now.toISOString(), config.timezone) as string;
+  const filePath = dailyNotePath(config, date);
+  const exists = fs.existsSync(filePath);
+  if (!exists && !(options.create ?? config.autoDailyNote)) return null;
+
+  const source = exists ? fs.readFileSync(filePath, "utf-8") : newDailyNote(config, date, time);
+  const tasks = [
+    ...listTaskFiles(config.tasksFolder),
+    ...listTaskFiles(path.join(config.tasksFolder, "Archive")),
+  ];
+  let content = source;
+  content = writeSection(content, "completed", completedSection(config, tasks, date));
+  content = writeSection(content, "due", dueSection(config, tasks, date));
+  content = writeSection(content, "follow-ups", followUpSection(config));
+  if (options.triage) {
+    content = appendToSection(content, "triage", "## Email triage", triageEntry(options.triage, time));
+  }
+
+  let logged = false;
+  const text = options.log?.trim().replace(/\s*\n\s*/g, " ");
+  if (text) {
+    const entries = readSection(content, "log") ?? [];
+    if (!entries.some((line) => line.replace(/^- \d\d:\d\d /, "") === text)) {
+      content = appendToSection(content, "log", "## Agent log", `- ${time} ${text}`);
+      logged = true;
+    }
+  }
+
+  if (!exists || content !== source) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, "utf-8");
+  }
+  return {
+    path: path.relative(config.vaultPath, filePath),
+    date,
+    created: !exists,
+    logged,
+  };
+}
+
+export function logToDailyNote(config: VaultConfig, params: { text: string }): ToolResult {
+  if (!params.text?.trim()) return jsonResult({ error: "text is required" });
+  const result = updateDailyNote(config, { create: true, log: params.text });
+  if (!result) return jsonResult({ error: "Could not open today's daily note" });
+  return jsonResult({
+    ...result,
+    message: result.logged
+      ? `Logged to ${result.path}`
+      : `Already logged in ${result.path}; sections refreshed`,
+  });
+}
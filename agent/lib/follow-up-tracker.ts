@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import { type GmailAdapter, type GmailMessage } from "./gmail-adapter.js";
 import { type VaultConfig } from "./vault-sync.js";
+import { daysBetween, localDate, todayIn } from "./task-dates.js";
 
 export interface FollowUp {
   type: "needs_reply" | "awaiting_reply" | "needs_action";
@@ -20,13 +21,14 @@ const OVERDUE_THRESHOLDS: Record<FollowUp["type"], number> = {
   needs_action: 2,
 };
 
-function daysAgo(dateStr: string): number {
-  const d = new Date(dateStr);
-  return Math.floor((Date.now() - d.getTime()) / (1000 * 60 * 60 * 24));
+// Ages are counted in calendar days in the user's timezone, so a message from
+// late yesterday evening is one day old this morning.
+function daysAgo(dateStr: string, timeZone: string): number {
+  return daysBetween(localDate(dateStr, timeZone), todayIn(timeZone));
 }
 
-function isOverdue(type: FollowUp["type"], dateStr: string): boolean {
-  return daysAgo(dateStr) > OVERDUE_THRESHOLDS[type];
+function isOverdue(type: FollowUp["type"], days: number): boolean {
+  return days > OVERDUE_THRESHOLDS[type];
 }
 
 export async function refreshFollowUps(
@@ -39,7 +41,7 @@ export async function refreshFollowUps(
     limit: 50,
   });
   for (const msg of toRespondMessages) {
-    const days = daysAgo(msg.date || new Date().toISOString());
+    const days = daysAgo(msg.date || new Date().toISOString(), config.timezone);
     const type = "needs_reply" as const;
     followUps.push({
       type,
@@ -49,7 +51,7 @@ export async function refreshFollowUps(
       threadId: msg.threadId,
       date: msg.date || new Date().toISOString(),
       daysAgo: days,
-      overdue: isOverdue(type, msg.date || new Date().toISOString()),
+      overdue: isOverdue(type, days),
     });
   }
 
@@ -57,7 +59,7 @@ export async function refreshFollowUps(
     limit: 50,
   });
   for (const msg of awaitingMessages) {
-    const days = daysAgo(msg.date || new Date().toISOString());
+    const days = daysAgo(msg.date || new Date().toISOString(), config.timezone);
     const type = "awaiting_reply" as const;
     followUps.push({
       type,
@@ -67,7 +69,7 @@ export async function refreshFollowUps(
       threadId: msg.threadId,
       date: msg.date || new Date().toISOString(),
       daysAgo: days,
-      overdue: isOverdue(type, msg.date || new Date().toISOString()),
+      overdue: isOverdue(type, days),
     });
   }
 
@@ -0,0 +1,343 @@
+export interface ResolvedDate {
+  input: string;
+  value: string;
+  display: string;
+  timezone: string;
+}
+
+interface ZonedParts {
+  date: string;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  ten: 10,
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const TIME_SUFFIX =
+  /(?:^|\s)(?:at\s+)?(?:(\d{1,2})(?::(\d{2}))?\s*(am|pm)|(\d{1,2}):(\d{2})|(noon|midnight))$/;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+      weekday: "long",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+  };
+}
+
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+  return zonedParts(now, timeZone).date;
+}
+
+// The calendar date a stored value falls on in the user's timezone. Date-only
+// values are already local; timestamps are converted.
+export function localDate(value: string, timeZone: string): string {
+  if (ISO_DATE.test(value)) return value;
+  const instant = new Date(value);
+  if (isNaN(instant.getTime())) return value.slice(0, 10);
+  return zonedParts(instant, timeZone).date;
+}
+
+export function localTime(value: string, timeZone: string): string | null {
+  if (ISO_DATE.test(value)) return null;
+  const instant = new Date(value);
+  if (isNaN(instant.getTime())) return null;
+  const local = zonedParts(instant, timeZone);
+  return `${pad(local.hour)}:${pad(local.minute)}`;
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to + "T00:00:00Z") - Date.parse(from + "T00:00:00Z")) / DAY_MS);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date + "T00:00:00Z") + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(date + "T00:00:00Z").getUTCDay();
+}
+
+export function startOfWeek(date: string): string {
+  return addDays(date, -((weekdayOf(date) + 6) % 7));
+}
+
+function offsetMinutes(instant: Date, timeZone: string): number {
+  const local = zonedParts(instant, timeZone);
+  const asUtc = Date.parse(
+    `${local.date}T${pad(local.hour)}:${pad(local.minute)}:00Z`
+  );
+  return Math.round((asUtc - Math.floor(instant.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// Turns a wall-clock time in the user's timezone into an ISO timestamp with
+// that zone's offset, e.g. 2026-10-27T17:00:00-04:00.
+export function zonedDateTime(
+  date: string,
+  hour: number,
+  minute: number,
+  timeZone: string
+): string {
+  const guess = Date.parse(`${date}T${pad(hour)}:${pad(minute)}:00Z`);
+  let offset = offsetMinutes(new Date(guess), timeZone);
+  offset = offsetMinutes(new Date(guess - offset * MINUTE_MS), timeZone);
+  return `${date}T${pad(hour)}:${pad(minute)}:00${formatOffset(offset)}`;
+}
+
+export function instantToZoned(instant: Date, timeZone: string): string {
+  const local = zonedParts(instant, timeZone);
+  return zonedDateTime(local.date, local.hour, local.minute, timeZone);
+}
+
+function isRealDate(date: string): boolean {
+  const match = date.match(ISO_DATE);
+  if (!match) return false;
+  const parsed = new Date(date + "T00:00:00Z");
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+function findName(names: string[], word: string): number {
+  if (word.length < 3) return -1;
+  return names.findIndex((name) => name.startsWith(word));
+}
+
+function parseCount(word: string): number | null {
+  if (/^\d+$/.test(word)) return Number(word);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+function resolveDay(
+  text: string,
+  today: string,
+  now: Date
+): { date: string } | { instant: Date } | null {
+  const weekday = weekdayOf(today);
+  if (text === "" || text === "today") return { date: today };
+  if (ISO_DATE.test(text)) return isRealDate(text) ? { date: text } : null;
+  if (text === "tomorrow" || text === "tmrw") return { date: addDays(today, 1) };
+  if (text === "yesterday") return { date: addDays(today, -1) };
+
+  const relative =
+    text.match(/^in (\w+) (minute|hour|day|week|month|year)s?$/) ||
+    text.match(/^(\w+) (minute|hour|day|week|month|year)s? from now$/);
+  if (relative) {
+    const n = parseCount(relative[1]);
+    if (n === null) return null;
+    switch (relative[2]) {
+      case "minute":
+        return { instant: new Date(now.getTime() + n * MINUTE_MS) };
+      case "hour":
+        return { instant: new Date(now.getTime() + n * 60 * MINUTE_MS) };
+      case "day":
+        return { date: addDays(today, n) };
+      case "week":
+        return { date: addDays(today, n * 7) };
+      case "month":
+        return { date: addMonths(today, n) };
+      default:
+        return { date: addMonths(today, n * 12) };
+    }
+  }
+
+  // "friday" and "next friday" are the next one after today; "this friday"
+  // can be today.
+  const day = text.match(/^(next |this )?(\w+)$/);
+  const dayIndex = day ? findName(WEEKDAYS, day[2]) : -1;
+  if (day && dayIndex >= 0) {
+    const ahead = (dayIndex - weekday + 7) % 7;
+    return { date: addDays(today, ahead === 0 && day[1] !== "this " ? 7 : ahead) };
+  }
+
+  if (text === "next week") return { date: addDays(today, ((1 - weekday + 7) % 7) || 7) };
+  if (text === "next month") return { date: addMonths(today.slice(0, 8) + "01", 1) };
+  if (text === "next year") return { date: `${Number(today.slice(0, 4)) + 1}-01-01` };
+
+  const end = text.match(/^end of (?:the )?(week|month|year)$/);
+  if (end) {
+    if (end[1] === "week") return { date: addDays(today, (5 - weekday + 7) % 7) };
+    if (end[1] === "month") return { date: addDays(addMonths(today.slice(0, 8) + "01", 1), -1) };
+    return { date: `${today.slice(0, 4)}-12-31` };
+  }
+
+  const monthFirst = text.match(/^(\w+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)? (\w+)(?: (\d{4}))?$/);
+  const monthDay = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst
+      ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] }
+      : null;
+  const monthIndex = monthDay ? findName(MONTHS, monthDay.month) : -1;
+  if (monthDay && monthIndex >= 0) {
+    const build = (year: string) => `${year}-${pad(monthIndex + 1)}-${pad(Number(monthDay.day))}`;
+    let date = build(monthDay.year || today.slice(0, 4));
+    if (!monthDay.year && date < today) date = build(String(Number(today.slice(0, 4)) + 1));
+    return isRealDate(date) ? { date } : null;
+  }
+
+  return null;
+}
+
+function describe(value: string, timeZone: string, hasTime: boolean): string {
+  if (!hasTime) {
+    return new Date(value + "T00:00:00Z").toLocaleDateString("en-US", {
+      timeZone: "UTC",
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+  return new Date(value).toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+// Accepts ISO dates as well as phrases like "tomorrow 5pm", "in 3 days",
+// "next tue", "end of month" or "nov 3", resolved in the user's timezone.
+// Dates without a time stay date-only; a time adds the zone's UTC offset.
+export function parseDueDate(
+  input: string,
+  timeZone: string,
+  now: Date = new Date()
+): ResolvedDate | { error: string } {
+  const raw = input.trim();
+  const resolved = (value: string, hasTime: boolean): ResolvedDate => ({
+    input: raw,
+    value,
+    display: describe(value, timeZone, hasTime),
+    timezone: timeZone,
+  });
+
+  if (ISO_DATE.test(raw)) {
+    return isRealDate(raw) ? resolved(raw, false) : { error: `Invalid date "${raw}"` };
+  }
+  const iso = raw.match(ISO_DATE_TIME);
+  if (iso) {
+    if (!isRealDate(iso[1]) || Number(iso[2]) > 23 || Number(iso[3]) > 59) {
+      return { error: `Invalid date "${raw}"` };
+    }
+    return iso[4]
+      ? resolved(raw, true)
+      : resolved(zonedDateTime(iso[1], Number(iso[2]), Number(iso[3]), timeZone), true);
+  }
+
+  let text = raw.toLowerCase().replace(/,/g, " ").replace(/\s+/g, " ").trim();
+  let time: { hour: number; minute: number } | null = null;
+  const timeMatch = text.match(TIME_SUFFIX);
+  if (timeMatch) {
+    if (timeMatch[6]) {
+      time = { hour: timeMatch[6] === "noon" ? 12 : 0, minute: 0 };
+    } else if (timeMatch[3]) {
+      const hour = Number(timeMatch[1]);
+      if (hour < 1 || hour > 12) return { error: `Invalid time in "${raw}"` };
+      time = {
+        hour: (hour % 12) + (timeMatch[3] === "pm" ? 12 : 0),
+        minute: Number(timeMatch[2] || 0),
+      };
+    } else {
+      time = { hour: Number(timeMatch[4]), minute: Number(timeMatch[5]) };
+    }
+    if (time.hour > 23 || time.minute > 59) return { error: `Invalid time in "${raw}"` };
+    text = text.slice(0, timeMatch.index).trim();
+  }
+
+  const today = todayIn(timeZone, now);
+  const day = resolveDay(text, today, now);
+  if (!day) {
+    return {
+      error: `Could not understand the date "${raw}". Use an ISO date (2026-11-03) or a phrase like "tomorrow 5pm", "in 3 days", "next tue", "end of month" or "nov 3".`,
+    };
+  }
+  if ("instant" in day) {
+    return resolved(instantToZoned(day.instant, timeZone), true);
+  }
+  if (!time) return resolved(day.date, false);
+  return resolved(zonedDateTime(day.date, time.hour, time.minute, timeZone), true);
+}
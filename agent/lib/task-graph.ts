@@ -0,0 +1,59 @@
+export interface TaskGraphNode {
+  title: string;
+  open: boolean;
+  dependsOn: string[];
+}
+
+function isOpen(node: TaskGraphNode | undefined): boolean {
+  return !!node && node.open;
+}
+
+export function findDependencyCycle(
+  graph: Map<string, string[]>,
+  start: string
+): string[] | null {
+  const visited = new Set<string>();
+
+  function walk(title: string, trail: string[]): string[] | null {
+    for (const dep of graph.get(title) || []) {
+      if (dep === start) return [...trail, dep];
+      if (visited.has(dep)) continue;
+      visited.add(dep);
+      const cycle = walk(dep, [...trail, dep]);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  return walk(start, [start]);
+}
+
+export function computeCriticalPath(nodes: TaskGraphNode[]): string[] {
+  const byTitle = new Map(nodes.map((n) => [n.title, n]));
+  const memo = new Map<string, string[]>();
+  const inProgress = new Set<string>();
+
+  function longestChain(title: string): string[] {
+    const cached = memo.get(title);
+    if (cached) return cached;
+    inProgress.add(title);
+    let best: string[] = [];
+    for (const dep of byTitle.get(title)?.dependsOn || []) {
+      if (!isOpen(byTitle.get(dep)) || inProgress.has(dep)) continue;
+      const chain = longestChain(dep);
+      if (chain.length > best.length) best = chain;
+    }
+    inProgress.delete(title);
+    const result = [...best, title];
+    memo.set(title, result);
+    return result;
+  }
+
+  let critical: string[] = [];
+  for (const node of nodes) {
+    if (!isOpen(node)) continue;
+    const chain = longestChain(node.title);
+    if (chain.length > critical.length) critical = chain;
+  }
+  return critical;
+}
@@ -0,0 +1,170 @@
+import * as fs from "fs";
+import { type TaskFrontmatter, type VaultConfig } from "./vault-sync.js";
+import { type WorkflowConfig, ARCHIVED_STATUS } from "./workflow.js";
+
+export interface HistoryActor {
+  channel: string;
+  tool_call_id?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+export interface HistoryEntry {
+  task_id: string;
+  title: string;
+  action: "created" | "updated" | "archived" | "deleted" | "restored";
+  changes: FieldChange[];
+  timestamp: string;
+  actor: HistoryActor;
+}
+
+export interface TaskSnapshot {
+  title: string;
+  frontmatter: TaskFrontmatter;
+  body: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function snapshotFields(snapshot: TaskSnapshot | null): Record<string, unknown> {
+  if (!snapshot) return {};
+  return {
+    title: snapshot.title,
+    ...snapshot.frontmatter,
+    description: snapshot.body || undefined,
+  };
+}
+
+export function diffTasks(
+  before: TaskSnapshot | null,
+  after: TaskSnapshot | null
+): FieldChange[] {
+  const oldFields = snapshotFields(before);
+  const newFields = snapshotFields(after);
+  const changes: FieldChange[] = [];
+  for (const field of new Set([...Object.keys(oldFields), ...Object.keys(newFields)])) {
+    if (field === "id") continue;
+    const oldValue = normalizeValue(oldFields[field]);
+    const newValue = normalizeValue(newFields[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, old: oldValue, new: newValue });
+    }
+  }
+  return changes;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === "") return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return value;
+}
+
+export function recordHistory(
+  config: VaultConfig,
+  action: HistoryEntry["action"],
+  before: TaskSnapshot | null,
+  after: TaskSnapshot | null
+): void {
+  const changes = diffTasks(before, after);
+  if ((action === "updated" || action === "restored") && changes.length === 0) return;
+  const current = after || before;
+  if (!current) return;
+  const entry: HistoryEntry = {
+    task_id: current.frontmatter.id,
+    title: current.title,
+    action,
+    changes,
+    timestamp: new Date().toISOString(),
+    actor: config.actor || { channel: "agent" },
+  };
+  fs.appendFileSync(config.historyFile, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+export function historySize(config: VaultConfig): number {
+  return fs.existsSync(config.historyFile) ? fs.statSync(config.historyFile).size : 0;
+}
+
+// Drops entries appended after the log was `size` bytes long, used when a
+// batch of changes is rolled back.
+export function truncateHistory(config: VaultConfig, size: number): void {
+  if (fs.existsSync(config.historyFile)) fs.truncateSync(config.historyFile, size);
+}
+
+export function readHistory(config: VaultConfig): HistoryEntry[] {
+  if (!fs.existsSync(config.historyFile)) return [];
+  const entries: HistoryEntry[] = [];
+  for (const line of fs.readFileSync(config.historyFile, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // A partially written line is skipped rather than failing the whole log.
+    }
+  }
+  return entries;
+}
+
+export interface StatusTransition {
+  from: string | null;
+  to: string;
+  at: string;
+}
+
+export interface FlowMetrics {
+  created_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  lead_time_hours: number | null;
+  cycle_time_hours: number | null;
+  transitions: StatusTransition[];
+}
+
+function hoursBetween(start: string | null, end: string | null): number | null {
+  if (!start || !end) return null;
+  const hours = (new Date(end).getTime() - new Date(start).getTime()) / HOUR_MS;
+  return Math.round(hours * 10) / 10;
+}
+
+export function computeFlowMetrics(
+  entries: HistoryEntry[],
+  workflow: WorkflowConfig,
+  fallbackCreatedAt?: string
+): FlowMetrics {
+  const transitions: StatusTransition[] = [];
+  let createdAt = fallbackCreatedAt || null;
+  for (const entry of entries) {
+    if (entry.action === "created") createdAt = entry.timestamp;
+    const change = entry.changes.find((c) => c.field === "status");
+    if (change && typeof change.new === "string") {
+      transitions.push({
+        from: typeof change.old === "string" ? change.old : null,
+        to: change.new,
+        at: entry.timestamp,
+      });
+    }
+  }
+
+  const startedAt =
+    transitions.find((t) => workflow.startedStatuses.includes(t.to))?.at || null;
+  let completedAt: string | null = null;
+  for (const t of transitions) {
+    if (workflow.closed.includes(t.to)) {
+      completedAt = t.at;
+    } else if (t.to !== ARCHIVED_STATUS) {
+      completedAt = null;
+    }
+  }
+
+  return {
+    created_at: createdAt,
+    started_at: startedAt,
+    completed_at: completedAt,
+    lead_time_hours: hoursBetween(createdAt, completedAt),
+    cycle_time_hours: hoursBetween(startedAt, completedAt),
+    transitions,
+  };
+}
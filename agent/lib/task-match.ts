@@ -0,0 +1,85 @@
+export interface MatchCandidate<T> {
+  item: T;
+  score: number;
+}
+
+export function normalizeTitle(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let beforePrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        curr[j] = Math.min(curr[j], beforePrev[j - 2] + 1);
+      }
+    }
+    beforePrev = prev;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function tokenMatches(queryToken: string, titleToken: string): boolean {
+  if (titleToken.startsWith(queryToken)) return true;
+  if (queryToken.length < 4) return false;
+  const allowed = queryToken.length >= 8 ? 2 : 1;
+  return editDistance(queryToken, titleToken) <= allowed;
+}
+
+export function scoreTitleMatch(query: string, title: string): number {
+  const q = normalizeTitle(query);
+  const t = normalizeTitle(title);
+  if (!q || !t) return 0;
+  if (q === t) return 1;
+
+  const editSimilarity = 1 - editDistance(q, t) / Math.max(q.length, t.length);
+
+  const queryTokens = q.split(" ");
+  const titleTokens = t.split(" ");
+  const used = new Set<number>();
+  let matched = 0;
+  for (const qt of queryTokens) {
+    const index = titleTokens.findIndex(
+      (tt, i) => !used.has(i) && tokenMatches(qt, tt)
+    );
+    if (index >= 0) {
+      used.add(index);
+      matched++;
+    }
+  }
+  const tokenScore = matched / queryTokens.length;
+  const coverage = matched / titleTokens.length;
+  const prefix = t.startsWith(q) ? 1 : 0;
+
+  const score = Math.max(
+    editSimilarity,
+    0.6 * tokenScore + 0.25 * coverage + 0.15 * prefix
+  );
+  return Math.round(score * 100) / 100;
+}
+
+export function rankMatches<T>(
+  query: string,
+  items: T[],
+  getTitle: (item: T) => string,
+  options: { threshold?: number; limit?: number } = {}
+): MatchCandidate<T>[] {
+  const threshold = options.threshold ?? 0.45;
+  return items
+    .map((item) => ({ item, score: scoreTitleMatch(query, getTitle(item)) }))
+    .filter((c) => c.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5);
+}
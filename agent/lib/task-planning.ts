@@ -0,0 +1,176 @@
+import { type ParsedTask } from "./vault-sync.js";
+import { type WorkflowConfig, isClosedStatus } from "./workflow.js";
+import { PRIORITY_RANK } from "./task-query.js";
+import { localDate } from "./task-dates.js";
+
+export interface PlanningConfig {
+  unit: "hours" | "points";
+  capacity: Record<string, number>;
+  defaultEstimate: number | null;
+}
+
+export interface PlanTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  due_date: string | null;
+  estimate: number | null;
+  reason?: string;
+}
+
+export interface AssigneePlan {
+  assignee: string;
+  capacity: number;
+  committed: number;
+  planned: number;
+  remaining: number;
+  over_capacity: boolean;
+  in_progress: PlanTask[];
+  plan: PlanTask[];
+  deferred: PlanTask[];
+  unestimated: PlanTask[];
+}
+
+export function resolvePlanning(raw: unknown = {}): PlanningConfig {
+  const input = (raw || {}) as Record<string, unknown>;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid planning config: ${message}`);
+  };
+
+  const unit = input.unit ?? "hours";
+  if (unit !== "hours" && unit !== "points") fail('"unit" must be "hours" or "points"');
+
+  const capacity = input.capacity ?? {};
+  const validCapacity =
+    typeof capacity === "object" &&
+    capacity !== null &&
+    !Array.isArray(capacity) &&
+    Object.values(capacity).every((n) => typeof n === "number" && n >= 0);
+  if (!validCapacity) fail('"capacity" must map assignees to non-negative numbers');
+
+  const defaultEstimate = input.defaultEstimate ?? null;
+  if (defaultEstimate !== null && (typeof defaultEstimate !== "number" || defaultEstimate < 0)) {
+    fail('"defaultEstimate" must be a non-negative number');
+  }
+
+  return {
+    unit: unit as PlanningConfig["unit"],
+    capacity: { ...(capacity as Record<string, number>) },
+    defaultEstimate: defaultEstimate as number | null,
+  };
+}
+
+export const DEFAULT_PLANNING = resolvePlanning();
+
+function planTask(task: ParsedTask, reason?: string): PlanTask {
+  return {
+    id: task.frontmatter.id,
+    title: task.title,
+    status: task.frontmatter.status,
+    priority: task.frontmatter.priority,
+    due_date: task.frontmatter.due_date || null,
+    estimate: task.frontmatter.estimate ?? null,
+    reason,
+  };
+}
+
+// Fills an assignee's week greedily: tasks due by the end of the week first,
+// then by priority, due date and how ready they are. Work already in a started
+// status counts against capacity before anything new is picked, and a task is
+// only picked once its open dependencies are done or picked ahead of it.
+export function planAssigneeWeek(
+  tasks: ParsedTask[],
+  options: {
+    assignee: string;
+    capacity: number;
+    workflow: WorkflowConfig;
+    planning: PlanningConfig;
+    weekEnd: string;
+    timeZone: string;
+  }
+): AssigneePlan {
+  const { workflow, planning, weekEnd, timeZone } = options;
+  const size = (task: ParsedTask) => task.frontmatter.estimate ?? planning.defaultEstimate;
+  const own = tasks.filter((t) => t.frontmatter.assignee === options.assignee);
+
+  const inProgress = own.filter((t) => workflow.startedStatuses.includes(t.frontmatter.status));
+  const committed = inProgress.reduce((sum, t) => sum + (size(t) ?? 0), 0);
+
+  const pool = [workflow.unblockedStatus, workflow.initialStatus];
+  const due = (task: ParsedTask) =>
+    task.frontmatter.due_date ? localDate(task.frontmatter.due_date, timeZone) : null;
+  const candidates = own
+    .filter((t) => pool.includes(t.frontmatter.status))
+    .sort((a, b) => {
+      const dueA = due(a);
+      const dueB = due(b);
+      const soonA = dueA !== null && dueA <= weekEnd ? 0 : 1;
+      const soonB = dueB !== null && dueB <= weekEnd ? 0 : 1;
+      return (
+        soonA - soonB ||
+        PRIORITY_RANK[b.frontmatter.priority] - PRIORITY_RANK[a.frontmatter.priority] ||
+        (dueA || "9999").localeCompare(dueB || "9999") ||
+        pool.indexOf(a.frontmatter.status) - pool.indexOf(b.frontmatter.status) ||
+        a.frontmatter.created_at.localeCompare(b.frontmatter.created_at)
+      );
+    });
+
+  const byTitle = new Map(tasks.map((t) => [t.title, t]));
+  const picked = new Set<string>();
+  const waitingOn = (task: ParsedTask) =>
+    (task.frontmatter.depends_on || []).filter((dep) => {
+      const match = byTitle.get(dep);
+      return match && !isClosedStatus(workflow, match.frontmatter.status) && !picked.has(dep);
+    });
+
+  const plan: PlanTask[] = [];
+  const deferred: PlanTask[] = [];
+  const unestimated: PlanTask[] = [];
+  let remaining = options.capacity - committed;
+  let open = candidates.filter((t) => {
+    if (size(t) !== null) return true;
+    unestimated.push(planTask(t));
+    return false;
+  });
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const task of [...open]) {
+      if (waitingOn(task).length > 0) continue;
+      open = open.filter((t) => t !== task);
+      changed = true;
+      const estimate = size(task) as number;
+      if (estimate > remaining) {
+        deferred.push(planTask(task, `needs ${estimate}, ${Math.max(remaining, 0)} left`));
+        continue;
+      }
+      const taskDue = due(task);
+      const reason =
+        taskDue !== null && taskDue <= weekEnd
+          ? `due ${taskDue}`
+          : `${task.frontmatter.priority} priority`;
+      plan.push(planTask(task, reason));
+      picked.add(task.title);
+      remaining -= estimate;
+    }
+  }
+  for (const task of open) {
+    deferred.push(planTask(task, `waiting on ${waitingOn(task).join(", ")}`));
+  }
+
+  const planned = plan.reduce((sum, t) => sum + (t.estimate ?? planning.defaultEstimate ?? 0), 0);
+  return {
+    assignee: options.assignee,
+    capacity: options.capacity,
+    committed,
+    planned,
+    remaining: options.capacity - committed - planned,
+    over_capacity: committed > options.capacity,
+    in_progress: inProgress.map((t) => planTask(t)),
+    plan,
+    deferred,
+    unestimated,
+  };
+}
@@ -0,0 +1,242 @@
+import { type ParsedTask } from "./vault-sync.js";
+import { localDate, todayIn } from "./task-dates.js";
+import {
+  type WorkflowConfig,
+  isActiveStatus,
+  isClosedStatus,
+} from "./workflow.js";
+
+type Operator = ":" | "=" | "<" | ">" | "<=" | ">=";
+
+interface QueryFilter {
+  negate: boolean;
+  field: string | null;
+  op: Operator;
+  value: string;
+}
+
+export interface TaskSort {
+  field: "due" | "priority" | "created" | "title" | "status" | "archived";
+  descending: boolean;
+}
+
+export interface TaskQuery {
+  filters: QueryFilter[];
+  sort?: TaskSort;
+}
+
+const MATCH_FIELDS = ["status", "priority", "assignee", "project", "tag", "id"];
+const DATE_FIELDS: Record<string, keyof ParsedTask["frontmatter"]> = {
+  due: "due_date",
+  created: "created_at",
+  completed: "completed_at",
+  archived: "archived_at",
+  follow_up: "follow_up_date",
+};
+const IS_VALUES = ["open", "closed", "active", "overdue", "recurring"];
+const HAS_VALUES = ["due", "project", "tags", "deps", "subtasks", "estimate"];
+export const PRIORITY_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
+const SORT_FIELDS: TaskSort["field"][] = [
+  "due",
+  "priority",
+  "created",
+  "title",
+  "status",
+  "archived",
+];
+const TOKEN = /(-)?(?:([a-z_]+)(<=|>=|:|<|>|=))?(?:"([^"]*)"|(\S+))/gi;
+
+export function parseTaskQuery(query: string): { query: TaskQuery } | { error: string } {
+  const parsed: TaskQuery = { filters: [] };
+
+  for (const match of query.matchAll(TOKEN)) {
+    const [raw, minus, rawField, op, quoted, bare] = match;
+    const value = quoted ?? bare ?? "";
+    const field = rawField?.toLowerCase();
+
+    if (field === "sort") {
+      const descending = value.startsWith("-");
+      const sortField = value.replace(/^-/, "").toLowerCase() as TaskSort["field"];
+      if (!SORT_FIELDS.includes(sortField)) {
+        return { error: `Unknown sort "${value}". Use one of: ${SORT_FIELDS.join(", ")}` };
+      }
+      parsed.sort = { field: sortField, descending };
+      continue;
+    }
+
+    const known =
+      field &&
+      (MATCH_FIELDS.includes(field) ||
+        field in DATE_FIELDS ||
+        field === "is" ||
+        field === "has");
+    if (!known) {
+      const text = raw.replace(/^-/, "").replace(/^"|"$/g, "");
+      if (text) {
+        parsed.filters.push({ negate: !!minus, field: null, op: ":", value: text });
+      }
+      continue;
+    }
+
+    const isComparison = op !== ":" && op !== "=";
+    if (isComparison && !(field in DATE_FIELDS) && field !== "priority") {
+      return { error: `Field "${field}" does not support "${op}"` };
+    }
+    if (field in DATE_FIELDS && value !== "today" && isNaN(Date.parse(value))) {
+      return { error: `Invalid date "${value}" for ${field}` };
+    }
+    if (field === "priority" && !(value.toLowerCase() in PRIORITY_RANK)) {
+      return { error: `Invalid priority "${value}"` };
+    }
+    const allowed = field === "is" ? IS_VALUES : field === "has" ? HAS_VALUES : null;
+    if (allowed && !allowed.includes(value.toLowerCase())) {
+      return { error: `Unknown ${field} value "${value}". Use one of: ${allowed.join(", ")}` };
+    }
+    parsed.filters.push({
+      negate: !!minus,
+      field,
+      op: op as Operator,
+      value,
+    });
+  }
+
+  return { query: parsed };
+}
+
+function compare(a: string | number, op: Operator, b: string | number): boolean {
+  switch (op) {
+    case "<":
+      return a < b;
+    case ">":
+      return a > b;
+    case "<=":
+      return a <= b;
+    case ">=":
+      return a >= b;
+    default:
+      return a === b;
+  }
+}
+
+function resolveDate(value: string, today: string): string {
+  return value === "today" ? today : value.slice(0, 10);
+}
+
+function matchesFilter(
+  task: ParsedTask,
+  filter: QueryFilter,
+  workflow: WorkflowConfig,
+  timeZone: string,
+  today: string
+): boolean {
+  const fm = task.frontmatter;
+  const isClosed = () => isClosedStatus(workflow, fm.status);
+  const value = filter.value.toLowerCase();
+
+  if (!filter.field) {
+    return (
+      task.title.toLowerCase().includes(value) ||
+      task.body.toLowerCase().includes(value)
+    );
+  }
+
+  if (filter.field in DATE_FIELDS) {
+    const date = fm[DATE_FIELDS[filter.field]];
+    if (!date) return false;
+    return compare(
+      localDate(String(date), timeZone),
+      filter.op,
+      resolveDate(filter.value, today)
+    );
+  }
+
+  switch (filter.field) {
+    case "status":
+      return value === "open" ? !isClosed() : fm.status === value;
+    case "priority":
+      return compare(PRIORITY_RANK[fm.priority], filter.op, PRIORITY_RANK[value]);
+    case "assignee":
+      return fm.assignee === value;
+    case "project":
+      return (fm.project || "").toLowerCase() === value;
+    case "tag":
+      return task.tags.some((t) => t.toLowerCase() === value.replace(/^#/, ""));
+    case "id":
+      return fm.id === filter.value;
+    case "is":
+      if (value === "open") return !isClosed();
+      if (value === "closed") return isClosed();
+      if (value === "active") return isActiveStatus(workflow, fm.status);
+      if (value === "overdue") {
+        return !isClosed() && !!fm.due_date && localDate(fm.due_date, timeZone) < today;
+      }
+      if (value === "recurring") return !!fm.recurrence;
+      return false;
+    case "has":
+      if (value === "due") return !!fm.due_date;
+      if (value === "project") return !!fm.project;
+      if (value === "tags") return task.tags.length > 0;
+      if (value === "deps") return (fm.depends_on || []).length > 0;
+      if (value === "subtasks") return task.subtasks.length > 0;
+      if (value === "estimate") return fm.estimate !== undefined;
+      return false;
+    default:
+      return false;
+  }
+}
+
+export function matchesTaskQuery(
+  task: ParsedTask,
+  query: TaskQuery,
+  workflow: WorkflowConfig,
+  timeZone: string = "UTC",
+  today: string = todayIn(timeZone)
+): boolean {
+  return query.filters.every(
+    (filter) => matchesFilter(task, filter, workflow, timeZone, today) !== filter.negate
+  );
+}
+
+export function sortTasks(tasks: ParsedTask[], sort?: TaskSort): ParsedTask[] {
+  const field = sort?.field || "created";
+  const direction = sort?.descending ? -1 : 1;
+
+  const key = (task: ParsedTask): string | number | null => {
+    const fm = task.frontmatter;
+    switch (field) {
+      case "due":
+        return fm.due_date ? fm.due_date.slice(0, 10) : null;
+      case "priority":
+        return -PRIORITY_RANK[fm.priority];
+      case "created":
+        return -new Date(fm.created_at).getTime();
+      case "title":
+        return task.title.toLowerCase();
+      case "status":
+        return fm.status;
+      case "archived":
+        return fm.archived_at ? -new Date(fm.archived_at).getTime() : null;
+    }
+  };
+
+  return [...tasks].sort((a, b) => {
+    const ka = key(a);
+    const kb = key(b);
+    if (ka !== kb) {
+      if (ka === null) return 1;
+      if (kb === null) return -1;
+      return (ka < kb ? -1 : 1) * direction;
+    }
+    return a.frontmatter.id < b.frontmatter.id ? -1 : 1;
+  });
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): number | null {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf-8");
+  const match = decoded.match(/^offset:(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,195 @@
+import { localDate, todayIn } from "./task-dates.js";
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval: number;
+  byDay?: number[];
+  byMonthDay?: number;
+  fromCompletion: boolean;
+}
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseRecurrence(
+  rule: string
+): { rule: RecurrenceRule } | { error: string } {
+  const parts = rule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter((p) => p.trim());
+  const values: Record<string, string> = {};
+  for (const part of parts) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      return { error: `Invalid recurrence part "${part}"` };
+    }
+    values[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const freq = values.FREQ;
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return { error: "Recurrence FREQ must be DAILY, WEEKLY or MONTHLY" };
+  }
+
+  const parsed: RecurrenceRule = { freq, interval: 1, fromCompletion: false };
+
+  for (const [key, value] of Object.entries(values)) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) {
+          return { error: "Recurrence INTERVAL must be a positive integer" };
+        }
+        parsed.interval = n;
+        break;
+      }
+      case "BYDAY": {
+        if (freq !== "WEEKLY") {
+          return { error: "Recurrence BYDAY is only supported with FREQ=WEEKLY" };
+        }
+        const days = value.split(",").map((d) => DAY_CODES.indexOf(d.trim()));
+        if (days.length === 0 || days.some((d) => d < 0)) {
+          return { error: "Recurrence BYDAY must list days as MO,TU,WE,TH,FR,SA,SU" };
+        }
+        parsed.byDay = Array.from(new Set(days)).sort();
+        break;
+      }
+      case "BYMONTHDAY": {
+        if (freq !== "MONTHLY") {
+          return { error: "Recurrence BYMONTHDAY is only supported with FREQ=MONTHLY" };
+        }
+        const n = Number(value);
+        if (!Number.isInteger(n) || n === 0 || n < -1 || n > 31) {
+          return { error: "Recurrence BYMONTHDAY must be 1-31, or -1 for the last day" };
+        }
+        parsed.byMonthDay = n;
+        break;
+      }
+      case "FROM":
+        if (value !== "SCHEDULE" && value !== "COMPLETION") {
+          return { error: "Recurrence FROM must be SCHEDULE or COMPLETION" };
+        }
+        parsed.fromCompletion = value === "COMPLETION";
+        break;
+      default:
+        return { error: `Unsupported recurrence key "${key}"` };
+    }
+  }
+
+  if (parsed.fromCompletion && (parsed.byDay || parsed.byMonthDay)) {
+    return { error: "Recurrence FROM=COMPLETION cannot be combined with BYDAY or BYMONTHDAY" };
+  }
+
+  return { rule: parsed };
+}
+
+export function validateRecurrence(rule: string): string | null {
+  const result = parseRecurrence(rule);
+  return "error" in result ? result.error : null;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function monthDate(year: number, month: number, day: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const clamped = day === -1 ? lastDay : Math.min(day, lastDay);
+  return new Date(Date.UTC(year, month, clamped));
+}
+
+function weekStart(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  completedAt: Date
+): string {
+  const completedDay = startOfDay(completedAt);
+
+  if (rule.fromCompletion) {
+    if (rule.freq === "MONTHLY") {
+      return formatDate(
+        monthDate(
+          completedDay.getUTCFullYear(),
+          completedDay.getUTCMonth() + rule.interval,
+          completedDay.getUTCDate()
+        )
+      );
+    }
+    const unit = rule.freq === "WEEKLY" ? 7 : 1;
+    return formatDate(addDays(completedDay, rule.interval * unit));
+  }
+
+  const start = startOfDay(anchor);
+  const isNext = (d: Date) => d > start && d > completedDay;
+
+  if (rule.freq === "MONTHLY") {
+    const day = rule.byMonthDay ?? start.getUTCDate();
+    for (let step = 0; ; step += rule.interval) {
+      const candidate = monthDate(
+        start.getUTCFullYear(),
+        start.getUTCMonth() + step,
+        day
+      );
+      if (isNext(candidate)) return formatDate(candidate);
+    }
+  }
+
+  if (rule.freq === "WEEKLY" && rule.byDay) {
+    const anchorWeek = weekStart(start).getTime();
+    for (let candidate = addDays(start, 1); ; candidate = addDays(candidate, 1)) {
+      const weekOffset = Math.round(
+        (weekStart(candidate).getTime() - anchorWeek) / (7 * DAY_MS)
+      );
+      if (
+        weekOffset % rule.interval === 0 &&
+        rule.byDay.includes(candidate.getUTCDay()) &&
+        isNext(candidate)
+      ) {
+        return formatDate(candidate);
+      }
+    }
+  }
+
+  const step = rule.interval * (rule.freq === "WEEKLY" ? 7 : 1);
+  let candidate = addDays(start, step);
+  while (!isNext(candidate)) {
+    candidate = addDays(candidate, step);
+  }
+  return formatDate(candidate);
+}
+
+// Occurrences are whole days in the user's timezone, so a task completed late
+// in the evening or due at a set time rolls forward from its local date.
+export function nextOccurrenceFor(
+  recurrence: string,
+  dueDate: string | undefined,
+  timeZone: string,
+  completedAt: Date = new Date()
+): string | null {
+  const parsed = parseRecurrence(recurrence);
+  if ("error" in parsed) return null;
+  const completedDay = new Date(todayIn(timeZone, completedAt) + "T00:00:00Z");
+  const anchor = dueDate
+    ? new Date(localDate(dueDate, timeZone) + "T00:00:00Z")
+    : completedDay;
+  if (isNaN(anchor.getTime())) return null;
+  return nextOccurrence(parsed.rule, anchor, completedDay);
+}
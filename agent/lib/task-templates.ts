@@ -0,0 +1,146 @@
+import * as fs from "fs";
+import * as path from "path";
+import matter from "gray-matter";
+import { type VaultConfig, normalizeDate, normalizeEstimate, normalizeTags } from "./vault-sync.js";
+
+export interface TemplateDefaults {
+  status?: string;
+  assignee?: string;
+  priority?: string;
+  project?: string;
+  dueDate?: string;
+  blockedBy?: string;
+  recurrence?: string;
+  estimate?: number;
+  tags?: string[];
+}
+
+export interface TaskTemplate {
+  name: string;
+  path: string;
+  isDefault: boolean;
+  defaults: TemplateDefaults;
+  fields: Record<string, unknown>;
+  body: string;
+}
+
+export interface TemplateValues {
+  title: string;
+  date: string;
+  project: string;
+}
+
+// Frontmatter a template can't meaningfully preset; these are always set by
+// the tools that create and finish tasks.
+const MANAGED_KEYS = [
+  "id",
+  "created_at",
+  "completed_at",
+  "archived_at",
+  "previous_occurrence",
+  "follow_up_date",
+  "depends_on",
+];
+
+const DEFAULT_KEYS: Record<string, keyof TemplateDefaults> = {
+  status: "status",
+  assignee: "assignee",
+  priority: "priority",
+  project: "project",
+  due_date: "dueDate",
+  blocked_by: "blockedBy",
+  recurrence: "recurrence",
+  estimate: "estimate",
+  tags: "tags",
+};
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/\.md$/i, "")
+    .toLowerCase()
+    .replace(/[-_\s]+/g, " ")
+    .trim();
+}
+
+function readTemplate(config: VaultConfig, filePath: string): TaskTemplate {
+  const parsed = matter(fs.readFileSync(filePath, "utf-8"));
+  const defaults: TemplateDefaults = {};
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed.data)) {
+    if (isEmpty(value) || MANAGED_KEYS.includes(key)) continue;
+    const field = DEFAULT_KEYS[key];
+    if (!field) fields[key] = value;
+    else if (field === "tags") defaults.tags = normalizeTags(value);
+    else if (field === "estimate") defaults.estimate = normalizeEstimate(value);
+    else if (field === "dueDate") defaults.dueDate = normalizeDate(value);
+    else defaults[field] = String(value);
+  }
+  return {
+    name: path.basename(filePath, ".md"),
+    path: path.relative(config.vaultPath, filePath),
+    isDefault: filePath === config.templateFile,
+    defaults,
+    fields,
+    body: parsed.content.trim(),
+  };
+}
+
+export function listTaskTemplates(config: VaultConfig): TaskTemplate[] {
+  const folder = path.dirname(config.templateFile);
+  if (!fs.existsSync(folder)) return [];
+  return fs
+    .readdirSync(folder)
+    .filter((file) => file.endsWith(".md"))
+    .map((file) => path.join(folder, file))
+    .filter((filePath) => filePath !== config.dailyTemplateFile && fs.statSync(filePath).isFile())
+    .map((filePath) => readTemplate(config, filePath))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Without a name, the default template (templateFile) is used when it exists.
+export function resolveTaskTemplate(
+  config: VaultConfig,
+  name?: string
+): { template: TaskTemplate | null } | { error: string } {
+  if (!name) {
+    return {
+      template: fs.existsSync(config.templateFile)
+        ? readTemplate(config, config.templateFile)
+        : null,
+    };
+  }
+  const templates = listTaskTemplates(config);
+  const wanted = normalizeName(name);
+  const template = templates.find((t) => normalizeName(t.name) === wanted);
+  if (template) return { template };
+  const available = templates.map((t) => t.name).join(", ") || "none";
+  return { error: `Template "${name}" not found. Available templates: ${available}` };
+}
+
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text
+    .replace(/\{\{title\}\}/g, values.title)
+    .replace(/\{\{date\}\}/g, values.date)
+    .replace(/\{\{project\}\}/g, values.project);
+}
+
+export function renderTemplateFields(
+  fields: Record<string, unknown>,
+  values: TemplateValues
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      typeof value === "string" ? renderTemplate(value, values) : value,
+    ])
+  );
+}
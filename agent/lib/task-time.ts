@@ -0,0 +1,291 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { type ParsedTask, type VaultConfig } from "./vault-sync.js";
+import { type HistoryActor } from "./task-history.js";
+import { localDate, todayIn } from "./task-dates.js";
+
+export interface TimeEntry {
+  id: string;
+  task_id: string;
+  title: string;
+  project: string | null;
+  assignee: string;
+  tags: string[];
+  date: string;
+  minutes: number;
+  started_at: string | null;
+  ended_at: string | null;
+  note: string | null;
+  source: "timer" | "manual";
+  actor: HistoryActor;
+  logged_at: string;
+}
+
+export interface RunningTimer {
+  task_id: string;
+  title: string;
+  started_at: string;
+  note: string | null;
+  actor: HistoryActor;
+}
+
+export interface TimeReportFilters {
+  from?: string;
+  to?: string;
+  project?: string;
+  assignee?: string;
+  tag?: string;
+}
+
+export interface TimeTotal {
+  key: string;
+  minutes: number;
+  hours: number;
+}
+
+const NONE = "(none)";
+
+function hours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+export function readTimers(config: VaultConfig): Record<string, RunningTimer> {
+  if (!fs.existsSync(config.timersFile)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(config.timersFile, "utf-8")) as Record<
+      string,
+      RunningTimer
+    >;
+  } catch {
+    return {};
+  }
+}
+
+function writeTimers(config: VaultConfig, timers: Record<string, RunningTimer>): void {
+  fs.writeFileSync(config.timersFile, JSON.stringify(timers, null, 2), "utf-8");
+}
+
+export interface TimerSnapshot {
+  timers: string | null;
+  logSize: number;
+}
+
+// Running timers and the length of the time log, so a batch of changes that
+// is rolled back can also undo the timers it started or stopped.
+export function snapshotTimers(config: VaultConfig): TimerSnapshot {
+  return {
+    timers: fs.existsSync(config.timersFile)
+      ? fs.readFileSync(config.timersFile, "utf-8")
+      : null,
+    logSize: fs.existsSync(config.timeLogFile) ? fs.statSync(config.timeLogFile).size : 0,
+  };
+}
+
+export function restoreTimers(config: VaultConfig, snapshot: TimerSnapshot): void {
+  if (snapshot.timers !== null) {
+    fs.writeFileSync(config.timersFile, snapshot.timers, "utf-8");
+  } else if (fs.existsSync(config.timersFile)) {
+    fs.unlinkSync(config.timersFile);
+  }
+  if (fs.existsSync(config.timeLogFile)) {
+    fs.truncateSync(config.timeLogFile, snapshot.logSize);
+  }
+}
+
+export function readTimeEntries(config: VaultConfig): TimeEntry[] {
+  if (!fs.existsSync(config.timeLogFile)) return [];
+  const entries: TimeEntry[] = [];
+  for (const line of fs.readFileSync(config.timeLogFile, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as TimeEntry);
+    } catch {
+      // A partially written line is skipped rather than failing the whole log.
+    }
+  }
+  return entries;
+}
+
+export function recordTimeEntry(
+  config: VaultConfig,
+  task: ParsedTask,
+  fields: Pick<TimeEntry, "date" | "minutes" | "started_at" | "ended_at" | "note" | "source">
+): TimeEntry {
+  const entry: TimeEntry = {
+    id: randomUUID().split("-")[0],
+    task_id: task.frontmatter.id,
+    title: task.title,
+    project: task.frontmatter.project || null,
+    assignee: task.frontmatter.assignee,
+    tags: task.tags,
+    ...fields,
+    actor: config.actor || { channel: "agent" },
+    logged_at: new Date().toISOString(),
+  };
+  fs.appendFileSync(config.timeLogFile, JSON.stringify(entry) + "\n", "utf-8");
+  return entry;
+}
+
+export function beginTimer(
+  config: VaultConfig,
+  task: ParsedTask,
+  note?: string,
+  now: Date = new Date()
+): RunningTimer | null {
+  const timers = readTimers(config);
+  if (timers[task.frontmatter.id]) return null;
+  const timer: RunningTimer = {
+    task_id: task.frontmatter.id,
+    title: task.title,
+    started_at: now.toISOString(),
+    note: note || null,
+    actor: config.actor || { channel: "agent" },
+  };
+  timers[task.frontmatter.id] = timer;
+  writeTimers(config, timers);
+  return timer;
+}
+
+// Stops a task's running timer and logs the elapsed time against the date the
+// timer was started on, in the user's timezone.
+export function endTimer(
+  config: VaultConfig,
+  task: ParsedTask,
+  note?: string,
+  now: Date = new Date()
+): TimeEntry | null {
+  const timers = readTimers(config);
+  const timer = timers[task.frontmatter.id];
+  if (!timer) return null;
+  delete timers[task.frontmatter.id];
+  writeTimers(config, timers);
+  const started = new Date(timer.started_at);
+  return recordTimeEntry(config, task, {
+    date: localDate(timer.started_at, config.timezone),
+    minutes: Math.max(0, Math.round((now.getTime() - started.getTime()) / 60000)),
+    started_at: timer.started_at,
+    ended_at: now.toISOString(),
+    note: [timer.note, note].filter(Boolean).join(" — ") || null,
+    source: "timer",
+  });
+}
+
+export function taskMinutes(config: VaultConfig, taskId: string): number {
+  return readTimeEntries(config)
+    .filter((e) => e.task_id === taskId)
+    .reduce((sum, e) => sum + e.minutes, 0);
+}
+
+function totals(entries: TimeEntry[], keys: (entry: TimeEntry) => string[]): TimeTotal[] {
+  const byKey = new Map<string, number>();
+  for (const entry of entries) {
+    for (const key of keys(entry)) {
+      byKey.set(key, (byKey.get(key) || 0) + entry.minutes);
+    }
+  }
+  return [...byKey.entries()]
+    .map(([key, minutes]) => ({ key, minutes, hours: hours(minutes) }))
+    .sort((a, b) => b.minutes - a.minutes || a.key.localeCompare(b.key));
+}
+
+// Entries are reported with the task's current project, assignee, tags and
+// title, so renamed or moved tasks are counted where they are now; deleted
+// tasks fall back to what was recorded with the entry.
+export function buildTimeReport(
+  config: VaultConfig,
+  tasks: ParsedTask[],
+  filters: TimeReportFilters
+): { entries: TimeEntry[]; report: Record<string, unknown> } {
+  const byId = new Map(tasks.map((t) => [t.frontmatter.id, t]));
+  const tag = filters.tag?.replace(/^#/, "").toLowerCase();
+  const entries = readTimeEntries(config)
+    .map((entry) => {
+      const task = byId.get(entry.task_id);
+      if (!task) return entry;
+      return {
+        ...entry,
+        title: task.title,
+        project: task.frontmatter.project || null,
+        assignee: task.frontmatter.assignee,
+        tags: task.tags,
+      };
+    })
+    .filter(
+      (e) =>
+        (!filters.from || e.date >= filters.from) &&
+        (!filters.to || e.date <= filters.to) &&
+        (!filters.project || e.project === filters.project) &&
+        (!filters.assignee || e.assignee === filters.assignee) &&
+        (!tag || e.tags.some((t) => t.toLowerCase() === tag))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.logged_at.localeCompare(b.logged_at));
+
+  const total = entries.reduce((sum, e) => sum + e.minutes, 0);
+  const now = Date.now();
+  return {
+    entries,
+    report: {
+      from: filters.from || null,
+      to: filters.to || null,
+      entry_count: entries.length,
+      total_minutes: total,
+      total_hours: hours(total),
+      by_project: totals(entries, (e) => [e.project || NONE]),
+      by_assignee: totals(entries, (e) => [e.assignee]),
+      by_tag: totals(entries, (e) => (e.tags.length > 0 ? e.tags : [NONE])),
+      by_task: totals(entries, (e) => [e.title]),
+      by_date: totals(entries, (e) => [e.date]).sort((a, b) => a.key.localeCompare(b.key)),
+      running: Object.values(readTimers(config)).map((timer) => ({
+        ...timer,
+        elapsed_minutes: Math.round((now - new Date(timer.started_at).getTime()) / 60000),
+      })),
+    },
+  };
+}
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function writeTimeReportCsv(
+  config: VaultConfig,
+  entries: TimeEntry[],
+  filters: TimeReportFilters,
+  csvPath?: string
+): string {
+  let relative =
+    csvPath ||
+    path.join(
+      "Reports",
+      `time-report-${filters.from || "start"}-to-${filters.to || todayIn(config.timezone)}.csv`
+    );
+  if (!relative.toLowerCase().endsWith(".csv")) relative += ".csv";
+  const filePath = path.resolve(config.vaultPath, relative);
+  const inVault = path.relative(config.vaultPath, filePath);
+  if (!inVault || inVault.startsWith("..") || path.isAbsolute(inVault)) {
+    throw new Error(`CSV path "${relative}" must be inside the vault`);
+  }
+  const rows = [
+    ["date", "task", "project", "assignee", "tags", "minutes", "hours", "note", "source"],
+    ...entries.map((e) => [
+      e.date,
+      e.title,
+      e.project,
+      e.assignee,
+      e.tags.join(" "),
+      e.minutes,
+      hours(e.minutes),
+      e.note,
+      e.source,
+    ]),
+  ];
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n",
+    "utf-8"
+  );
+  return inVault;
+}
@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  type VaultConfig,
+  type BoardCardPosition,
+  findBoardCard,
+  listBoardFiles,
+  restoreBoardCards,
+  restoreTaskFile,
+} from "./vault-sync.js";
+
+export interface TrashFile {
+  before: string | null;
+  after: string | null;
+}
+
+export interface TrashCard extends BoardCardPosition {
+  board: string;
+}
+
+export interface TrashEntry {
+  id: string;
+  action: "updated" | "archived" | "deleted";
+  task_id: string;
+  title: string;
+  timestamp: string;
+  expires_at: string;
+  files: Record<string, TrashFile>;
+  titles: string[];
+  cards: TrashCard[];
+  restored_at?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let lastStamp = 0;
+
+function readContent(filePath: string): string | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : null;
+}
+
+function entryPath(config: VaultConfig, entry: TrashEntry): string {
+  return path.join(config.trashFolder, entry.id + ".json");
+}
+
+// Captures the files and board cards a change is about to touch. Nothing is
+// written until saveChange runs after the change has been applied.
+export function captureChange(
+  config: VaultConfig,
+  action: TrashEntry["action"],
+  task: { title: string; frontmatter: { id: string } },
+  filePaths: string[],
+  titles: string[]
+): TrashEntry {
+  const now = Math.max(Date.now(), lastStamp + 1);
+  lastStamp = now;
+  const timestamp = new Date(now).toISOString();
+  const files: Record<string, TrashFile> = {};
+  for (const filePath of filePaths) {
+    files[path.relative(config.vaultPath, filePath)] = {
+      before: readContent(filePath),
+      after: null,
+    };
+  }
+  const uniqueTitles = [...new Set(titles)];
+  return {
+    id: `${timestamp.replace(/[:.]/g, "-")}-${task.frontmatter.id}`,
+    action,
+    task_id: task.frontmatter.id,
+    title: task.title,
+    timestamp,
+    expires_at: new Date(now + config.trashRetentionDays * DAY_MS).toISOString(),
+    files,
+    titles: uniqueTitles,
+    cards: listBoardFiles(config).flatMap((boardPath) =>
+      uniqueTitles.flatMap((title) => {
+        const card = findBoardCard(boardPath, title);
+        return card ? [{ ...card, board: path.relative(config.vaultPath, boardPath) }] : [];
+      })
+    ),
+  };
+}
+
+export function saveChange(config: VaultConfig, entry: TrashEntry): void {
+  let changed = false;
+  for (const [relative, file] of Object.entries(entry.files)) {
+    file.after = readContent(path.join(config.vaultPath, relative));
+    if (file.after !== file.before) changed = true;
+  }
+  if (!changed) return;
+  purgeTrash(config);
+  fs.mkdirSync(config.trashFolder, { recursive: true });
+  fs.writeFileSync(entryPath(config, entry), JSON.stringify(entry, null, 2), "utf-8");
+}
+
+export function purgeTrash(config: VaultConfig, now: Date = new Date()): number {
+  if (!fs.existsSync(config.trashFolder)) return 0;
+  let purged = 0;
+  for (const file of fs.readdirSync(config.trashFolder)) {
+    if (!file.endsWith(".json")) continue;
+    const filePath = path.join(config.trashFolder, file);
+    try {
+      const entry = JSON.parse(fs.readFileSync(filePath, "utf-8")) as TrashEntry;
+      if (new Date(entry.expires_at) > now) continue;
+    } catch {
+      // Unreadable snapshots can't be restored, so they are dropped too.
+    }
+    fs.unlinkSync(filePath);
+    purged++;
+  }
+  return purged;
+}
+
+export function listTrash(config: VaultConfig): TrashEntry[] {
+  if (!fs.existsSync(config.trashFolder)) return [];
+  const now = new Date();
+  const entries: TrashEntry[] = [];
+  for (const file of fs.readdirSync(config.trashFolder)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const entry = JSON.parse(
+        fs.readFileSync(path.join(config.trashFolder, file), "utf-8")
+      ) as TrashEntry;
+      if (new Date(entry.expires_at) > now) entries.push(entry);
+    } catch {
+      // Skip partially written snapshots.
+    }
+  }
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+export function discardChangesSince(config: VaultConfig, since: string): void {
+  for (const entry of listTrash(config)) {
+    if (entry.timestamp >= since) fs.unlinkSync(entryPath(config, entry));
+  }
+}
+
+export function changedSince(config: VaultConfig, entry: TrashEntry): string[] {
+  return Object.keys(entry.files).filter(
+    (relative) =>
+      readContent(path.join(config.vaultPath, relative)) !== entry.files[relative].after
+  );
+}
+
+export function restoreChange(config: VaultConfig, entry: TrashEntry): void {
+  const titles = [...entry.titles];
+  for (const [relative, file] of Object.entries(entry.files)) {
+    const filePath = path.join(config.vaultPath, relative);
+    restoreTaskFile(filePath, file.before);
+    titles.push(path.basename(filePath, ".md"));
+  }
+  for (const boardPath of listBoardFiles(config)) {
+    const board = path.relative(config.vaultPath, boardPath);
+    restoreBoardCards(
+      boardPath,
+      [...new Set(titles)],
+      entry.cards.filter((c) => c.board === board)
+    );
+  }
+  markRestored(config, entry);
+}
+
+export function markRestored(config: VaultConfig, entry: TrashEntry): void {
+  entry.restored_at = new Date().toISOString();
+  fs.writeFileSync(entryPath(config, entry), JSON.stringify(entry, null, 2), "utf-8");
+}
@@ -0,0 +1,95 @@
+import { type ParsedTask } from "./vault-sync.js";
+import { type WorkflowConfig } from "./workflow.js";
+
+export interface WipViolation {
+  scope: "status" | "assignee";
+  key: string;
+  limit: number;
+  count: number;
+}
+
+interface WipPosition {
+  status: string;
+  assignee: string;
+}
+
+export function findWipViolations(
+  tasks: ParsedTask[],
+  workflow: WorkflowConfig,
+  before: WipPosition | null,
+  after: WipPosition,
+  taskId?: string
+): WipViolation[] {
+  const limits = workflow.wipLimits;
+  const others = tasks.filter((t) => !taskId || t.frontmatter.id !== taskId);
+  const violations: WipViolation[] = [];
+
+  const statusLimit = limits.statuses[after.status];
+  if (statusLimit !== undefined && before?.status !== after.status) {
+    const count =
+      others.filter((t) => t.frontmatter.status === after.status).length + 1;
+    if (count > statusLimit) {
+      violations.push({ scope: "status", key: after.status, limit: statusLimit, count });
+    }
+  }
+
+  const inScope = (status: string) => limits.assigneeStatuses.includes(status);
+  const assigneeLimit = limits.assignees[after.assignee];
+  const alreadyCounted =
+    !!before && inScope(before.status) && before.assignee === after.assignee;
+  if (assigneeLimit !== undefined && inScope(after.status) && !alreadyCounted) {
+    const count =
+      others.filter(
+        (t) => t.frontmatter.assignee === after.assignee && inScope(t.frontmatter.status)
+      ).length + 1;
+    if (count > assigneeLimit) {
+      violations.push({ scope: "assignee", key: after.assignee, limit: assigneeLimit, count });
+    }
+  }
+
+  return violations;
+}
+
+export function describeWipViolations(violations: WipViolation[]): string {
+  return violations
+    .map((v) =>
+      v.scope === "status"
+        ? `"${v.key}" would have ${v.count} tasks (limit ${v.limit})`
+        : `${v.key} would have ${v.count} tasks in progress (limit ${v.limit})`
+    )
+    .join("; ");
+}
+
+export function summarizeWip(tasks: ParsedTask[], workflow: WorkflowConfig) {
+  const limits = workflow.wipLimits;
+  const statuses = workflow.statuses.map((s) => {
+    const count = tasks.filter((t) => t.frontmatter.status === s.id).length;
+    const limit = limits.statuses[s.id] ?? null;
+    return {
+      status: s.id,
+      column: s.column,
+      count,
+      limit,
+      exceeded: limit !== null && count > limit,
+    };
+  });
+  const assigneeNames = Array.from(
+    new Set([...Object.keys(limits.assignees), ...tasks.map((t) => t.frontmatter.assignee)])
+  );
+  const assignees = assigneeNames.map((assignee) => {
+    const count = tasks.filter(
+      (t) =>
+        t.frontmatter.assignee === assignee &&
+        limits.assigneeStatuses.includes(t.frontmatter.status)
+    ).length;
+    const limit = limits.assignees[assignee] ?? null;
+    return { assignee, count, limit, exceeded: limit !== null && count > limit };
+  });
+  return {
+    mode: limits.mode,
+    assignee_statuses: limits.assigneeStatuses,
+    statuses,
+    assignees,
+    exceeded: [...statuses, ...assignees].some((entry) => entry.exceeded),
+  };
+}
@@ -0,0 +1,757 @@
+import * as fs from "fs";
+import * as path from "path";
+import matter from "gray-matter";
+import {
+  type ParsedTask,
+  type VaultConfig,
+  listTaskFiles,
+  normalizeDate,
+  renderNoteFile,
+  writeTaskFile,
+  sanitizeFilename,
+  projectBoardFile,
+  createBoardFile,
+  syncBoardWithFiles,
+} from "./vault-sync.js";
+import { type WorkflowConfig, ARCHIVED_STATUS, isClosedStatus } from "./workflow.js";
+import { recordHistory } from "./task-history.js";
+import { addDays, localDate, todayIn } from "./task-dates.js";
+
+export interface ToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  details: Record<string, unknown>;
+}
+
+function jsonResult(payload: Record<string, unknown>): ToolResult {
+  const clean = JSON.parse(JSON.stringify(payload));
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(clean, null, 2) }],
+    details: clean,
+  };
+}
+
+export const PROJECT_STATUSES = ["active", "paused", "done"] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export interface ProjectFrontmatter {
+  slug: string;
+  display_name: string;
+  status: ProjectStatus;
+  owner?: string;
+  target_date?: string;
+  goals: string[];
+  created_at: string;
+  archived_at?: string;
+}
+
+export interface ParsedProject {
+  slug: string;
+  frontmatter: ProjectFrontmatter;
+  description: string;
+  filePath: string;
+  archived: boolean;
+}
+
+export interface ProjectRollup {
+  total: number;
+  open: number;
+  done: number;
+  by_status: Record<string, number>;
+  overdue: number;
+  percent_complete: number;
+  throughput_per_week: number;
+  projected_finish: string | null;
+  on_track: boolean | null;
+}
+
+const WIKILINK = /\[\[([^\]|#]+)([^\]]*)\]\]/g;
+const TASKS_START = "%% tasks:start %%";
+const TASKS_END = "%% tasks:end %%";
+const THROUGHPUT_WEEKS = 4;
+
+function projectRecord(fm: ProjectFrontmatter): Record<string, unknown> {
+  const record: Record<string, unknown> = {
+    slug: fm.slug,
+    display_name: fm.display_name,
+    status: fm.status,
+  };
+  if (fm.owner) record.owner = fm.owner;
+  if (fm.target_date) record.target_date = fm.target_date;
+  if (fm.goals.length > 0) record.goals = fm.goals;
+  record.created_at = fm.created_at;
+  if (fm.archived_at) record.archived_at = fm.archived_at;
+  return record;
+}
+
+function normalizeProject(
+  data: Record<string, unknown>,
+  slug: string
+): ProjectFrontmatter {
+  const status = String(data.status || "active") as ProjectStatus;
+  return {
+    slug: String(data.slug || slug),
+    display_name: String(data.display_name || slug),
+    status: PROJECT_STATUSES.includes(status) ? status : "active",
+    owner: data.owner ? String(data.owner) : undefined,
+    target_date: normalizeDate(data.target_date),
+    goals: Array.isArray(data.goals) ? data.goals.map(String) : [],
+    created_at: normalizeDate(data.created_at) || new Date().toISOString(),
+    archived_at: normalizeDate(data.archived_at),
+  };
+}
+
+function splitTaskSection(body: string): {
+  before: string;
+  section: string | null;
+  after: string;
+  description: string;
+} {
+  const start = body.indexOf(TASKS_START);
+  const end = start < 0 ? -1 : body.indexOf(TASKS_END, start);
+  if (end < 0) {
+    return { before: body.trim(), section: null, after: "", description: body.trim() };
+  }
+  const before = body.slice(0, start).trim();
+  const after = body.slice(end + TASKS_END.length).trim();
+  return {
+    before,
+    section: body.slice(start, end + TASKS_END.length),
+    after,
+    description: [before, after].filter(Boolean).join("\n\n"),
+  };
+}
+
+function parseProjectFile(filePath: string, archived: boolean): ParsedProject {
+  const parsed = matter(fs.readFileSync(filePath, "utf-8"));
+  const slug = path.basename(filePath, ".md");
+  return {
+    slug,
+    frontmatter: normalizeProject(parsed.data, slug),
+    description: splitTaskSection(parsed.content).description,
+    filePath,
+    archived,
+  };
+}
+
+function listProjectFiles(folder: string, archived: boolean): ParsedProject[] {
+  if (!fs.existsSync(folder)) return [];
+  return fs
+    .readdirSync(folder)
+    .filter((file) => file.endsWith(".md"))
+    .map((file) => parseProjectFile(path.join(folder, file), archived));
+}
+
+function findProject(config: VaultConfig, slug: string): ParsedProject | null {
+  const active = path.join(config.projectsFolder, slug + ".md");
+  if (fs.existsSync(active)) return parseProjectFile(active, false);
+  const archived = path.join(config.projectsFolder, "Archive", slug + ".md");
+  if (fs.existsSync(archived)) return parseProjectFile(archived, true);
+  return null;
+}
+
+export function computeProjectRollup(
+  tasks: ParsedTask[],
+  archived: ParsedTask[],
+  workflow: WorkflowConfig,
+  timeZone: string,
+  targetDate?: string,
+  now: Date = new Date()
+): ProjectRollup {
+  const today = todayIn(timeZone, now);
+  const byStatus: Record<string, number> = {};
+  for (const status of workflow.statuses) byStatus[status.id] = 0;
+  for (const task of tasks) {
+    byStatus[task.frontmatter.status] = (byStatus[task.frontmatter.status] || 0) + 1;
+  }
+  if (archived.length > 0) byStatus[ARCHIVED_STATUS] = archived.length;
+
+  const openTasks = tasks.filter((t) => !isClosedStatus(workflow, t.frontmatter.status));
+  const open = openTasks.length;
+  const done = tasks.length - open + archived.length;
+  const total = open + done;
+  const overdue = openTasks.filter(
+    (t) => t.frontmatter.due_date && localDate(t.frontmatter.due_date, timeZone) < today
+  ).length;
+
+  // Throughput is the number of tasks finished per week over the last few
+  // weeks; the projection assumes the remaining open tasks go at that pace.
+  const windowStart = addDays(today, -THROUGHPUT_WEEKS * 7);
+  const finished = [...tasks, ...archived].filter(
+    (t) =>
+      isClosedStatus(workflow, t.frontmatter.status) &&
+      t.frontmatter.completed_at &&
+      localDate(t.frontmatter.completed_at, timeZone) > windowStart
+  ).length;
+  const perWeek = finished / THROUGHPUT_WEEKS;
+  const projectedFinish =
+    open > 0 && perWeek > 0 ? addDays(today, Math.ceil((open / perWeek) * 7)) : null;
+  let onTrack: boolean | null = null;
+  if (open === 0 && total > 0) {
+    onTrack = true;
+  } else if (targetDate && projectedFinish) {
+    onTrack = projectedFinish <= localDate(targetDate, timeZone);
+  }
+
+  return {
+    total,
+    open,
+    done,
+    by_status: byStatus,
+    overdue,
+    percent_complete: total > 0 ? Math.round((done / total) * 100) : 0,
+    throughput_per_week: Math.round(perWeek * 10) / 10,
+    projected_finish: projectedFinish,
+    on_track: onTrack,
+  };
+}
+
+function renderTaskSection(tasks: ParsedTask[], config: VaultConfig): string {
+  const order = config.workflow.statuses.map((s) => s.id);
+  const rank = (task: ParsedTask) => {
+    const index = order.indexOf(task.frontmatter.status);
+    const closed = isClosedStatus(config.workflow, task.frontmatter.status) ? 1 : 0;
+    return closed * order.length + (index < 0 ? order.length : index);
+  };
+  const sorted = [...tasks].sort(
+    (a, b) => rank(a) - rank(b) || a.title.localeCompare(b.title)
+  );
+  const lines = [TASKS_START, "## Tasks", ""];
+  if (sorted.length === 0) lines.push("_No tasks yet._");
+  for (const task of sorted) {
+    const fm = task.frontmatter;
+    const parts = [fm.status];
+    if (fm.due_date) parts.push(`due ${localDate(fm.due_date, config.timezone)}`);
+    if (fm.assignee === "assistant") parts.push("assistant");
+    lines.push(`- [[${task.title}]] · ${parts.join(" · ")}`);
+  }
+  lines.push(TASKS_END);
+  return lines.join("\n");
+}
+
+// Rewrites the frontmatter and the task list between the tasks:start/end
+// markers; the rest of the note is left as the user wrote it unless a new
+// description is given.
+function writeProjectNote(
+  config: VaultConfig,
+  project: ParsedProject,
+  tasks: ParsedTask[],
+  options: { targetPath?: string; description?: string } = {}
+): void {
+  const source = fs.existsSync(project.filePath)
+    ? fs.readFileSync(project.filePath, "utf-8")
+    : "";
+  const parts = splitTaskSection(matter(source).content);
+  const section = renderTaskSection(tasks, config);
+  const blocks =
+    options.description === undefined && parts.section !== null
+      ? [parts.before, section, parts.after]
+      : [options.description ?? parts.description, section];
+  const output = renderNoteFile(
+    source,
+    projectRecord(project.frontmatter),
+    blocks.filter(Boolean).join("\n\n"),
+    (data) => projectRecord(normalizeProject(data, project.slug))
+  );
+  const targetPath = options.targetPath || project.filePath;
+  if (targetPath === project.filePath && output === source) return;
+  fs.writeFileSync(targetPath, output, "utf-8");
+}
+
+function projectTasks(config: VaultConfig, slug: string) {
+  return {
+    tasks: listTaskFiles(config.tasksFolder).filter(
+      (t) => t.frontmatter.project === slug
+    ),
+    archived: listTaskFiles(path.join(config.tasksFolder, "Archive")).filter(
+      (t) => t.frontmatter.project === slug
+    ),
+  };
+}
+
+export function refreshProjectNotes(config: VaultConfig, slugs?: string[]): void {
+  const tasks = listTaskFiles(config.tasksFolder);
+  for (const project of listProjectFiles(config.projectsFolder, false)) {
+    if (slugs && !slugs.includes(project.slug)) continue;
+    writeProjectNote(
+      config,
+      project,
+      tasks.filter((t) => t.frontmatter.project === project.slug)
+    );
+  }
+}
+
+// Turning the board on fills it from the project's tasks; turning it off
+// removes the board and its sync state, leaving the tasks as they are.
+function setProjectBoard(config: VaultConfig, slug: string, enabled: boolean): void {
+  const boardPath = projectBoardFile(config, slug);
+  if (enabled) {
+    if (fs.existsSync(boardPath)) return;
+    createBoardFile(config, boardPath);
+    syncBoardWithFiles(config, { project: slug });
+    return;
+  }
+  const folder = path.dirname(boardPath);
+  for (const filePath of [
+    boardPath,
+    path.join(folder, ".sync-state.json"),
+    path.join(folder, "Sync Conflicts.md"),
+  ]) {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  }
+  if (fs.existsSync(folder) && fs.readdirSync(folder).length === 0) fs.rmdirSync(folder);
+}
+
+function projectSummary(config: VaultConfig, project: ParsedProject | null, slug: string) {
+  const boardPath = projectBoardFile(config, slug);
+  return {
+    slug,
+    display_name: project?.frontmatter.display_name || slug,
+    status: project?.frontmatter.status || "active",
+    owner: project?.frontmatter.owner || null,
+    target_date: project?.frontmatter.target_date || null,
+    archived: project?.archived || false,
+    has_note: !!project,
+    board: fs.existsSync(boardPath) ? path.relative(config.vaultPath, boardPath) : null,
+  };
+}
+
+export function listProjects(config: VaultConfig): ToolResult {
+  const tasks = listTaskFiles(config.tasksFolder);
+  const archivedTasks = listTaskFiles(path.join(config.tasksFolder, "Archive"));
+  const notes = new Map(
+    listProjectFiles(config.projectsFolder, false).map((p) => [p.slug, p])
+  );
+  const slugs = new Set<string>(notes.keys());
+  for (const task of tasks) {
+    if (task.frontmatter.project) slugs.add(task.frontmatter.project);
+  }
+
+  const projects = Array.from(slugs).map((slug) => {
+    const project = notes.get(slug) || null;
+    const own = tasks.filter((t) => t.frontmatter.project === slug);
+    const rollup = computeProjectRollup(
+      own,
+      archivedTasks.filter((t) => t.frontmatter.project === slug),
+      config.workflow,
+      config.timezone,
+      project?.frontmatter.target_date
+    );
+    return {
+      ...projectSummary(config, project, slug),
+      taskCount: own.length,
+      open: rollup.open,
+      done: rollup.done,
+      overdue: rollup.overdue,
+      percent_complete: rollup.percent_complete,
+    };
+  });
+
+  return jsonResult({ count: projects.length, projects });
+}
+
+export function getProject(
+  config: VaultConfig,
+  params: { slug: string }
+): ToolResult {
+  const project = findProject(config, params.slug);
+  const { tasks, archived } = projectTasks(config, params.slug);
+  if (!project && tasks.length === 0 && archived.length === 0) {
+    return jsonResult({ error: `Project "${params.slug}" not found` });
+  }
+
+  return jsonResult({
+    project: {
+      ...projectSummary(config, project, params.slug),
+      goals: project?.frontmatter.goals || [],
+      created_at: project?.frontmatter.created_at || null,
+      archived_at: project?.frontmatter.archived_at || null,
+      description: project?.description || null,
+    },
+    rollup: computeProjectRollup(
+      tasks,
+      archived,
+      config.workflow,
+      config.timezone,
+      project?.frontmatter.target_date
+    ),
+    tasks: tasks.map((t) => ({
+      id: t.frontmatter.id,
+      title: t.title,
+      status: t.frontmatter.status,
+      assignee: t.frontmatter.assignee,
+      priority: t.frontmatter.priority,
+      due_date: t.frontmatter.due_date || null,
+    })),
+  });
+}
+
+function checkDate(value: string | undefined, field: string): string | null {
+  if (value && isNaN(Date.parse(value))) return `Invalid date "${value}" for ${field}`;
+  return null;
+}
+
+export function createProject(
+  config: VaultConfig,
+  params: {
+    slug: string;
+    displayName?: string;
+    description?: string;
+    owner?: string;
+    targetDate?: string;
+    goals?: string[];
+    board?: boolean;
+  }
+): ToolResult {
+  if (!fs.existsSync(config.projectsFolder)) {
+    fs.mkdirSync(config.projectsFolder, { recursive: true });
+  }
+
+  const filePath = path.join(config.projectsFolder, params.slug + ".md");
+  if (fs.existsSync(filePath) || findProject(config, params.slug)) {
+    return jsonResult({ error: `Project "${params.slug}" already exists` });
+  }
+  const dateError = checkDate(params.targetDate, "targetDate");
+  if (dateError) return jsonResult({ error: dateError });
+
+  const project: ParsedProject = {
+    slug: params.slug,
+    frontmatter: {
+      slug: params.slug,
+      display_name: params.displayName || params.slug,
+      status: "active",
+      owner: params.owner || undefined,
+      target_date: params.targetDate || undefined,
+      goals: params.goals || [],
+      created_at: new Date().toISOString(),
+    },
+    description: params.description || "",
+    filePath,
+    archived: false,
+  };
+  writeProjectNote(config, project, projectTasks(config, params.slug).tasks, {
+    description: project.description,
+  });
+  if (params.board) setProjectBoard(config, params.slug, true);
+
+  return jsonResult({
+    created: true,
+    project: {
+      slug: params.slug,
+      displayName: project.frontmatter.display_name,
+      board: params.board
+        ? path.relative(config.vaultPath, projectBoardFile(config, params.slug))
+        : null,
+    },
+  });
+}
+
+export function updateProject(
+  config: VaultConfig,
+  params: {
+    slug: string;
+    displayName?: string;
+    description?: string;
+    status?: ProjectStatus;
+    owner?: string;
+    targetDate?: string;
+    goals?: string[];
+    board?: boolean;
+  }
+): ToolResult {
+  const project = findProject(config, params.slug);
+  if (!project) {
+    return jsonResult({ error: `Project "${params.slug}" not found` });
+  }
+  if (params.status && !PROJECT_STATUSES.includes(params.status)) {
+    return jsonResult({
+      error: `Unknown project status "${params.status}". Use one of: ${PROJECT_STATUSES.join(", ")}`,
+    });
+  }
+  const dateError = checkDate(params.targetDate, "targetDate");
+  if (dateError) return jsonResult({ error: dateError });
+
+  const fm = project.frontmatter;
+  if (params.displayName) fm.display_name = params.displayName;
+  if (params.status) fm.status = params.status;
+  if (params.owner !== undefined) fm.owner = params.owner || undefined;
+  if (params.targetDate !== undefined) fm.target_date = params.targetDate || undefined;
+  if (params.goals !== undefined) fm.goals = params.goals;
+
+  const { tasks } = projectTasks(config, project.slug);
+  writeProjectNote(config, project, tasks, { description: params.description });
+  if (params.board !== undefined) setProjectBoard(config, project.slug, params.board);
+
+  return getProject(config, { slug: project.slug });
+}
+
+export function archiveProject(
+  config: VaultConfig,
+  params: { slug: string; force?: boolean }
+): ToolResult {
+  const project = findProject(config, params.slug);
+  if (!project) {
+    return jsonResult({ error: `Project "${params.slug}" not found` });
+  }
+  if (project.archived) {
+    return jsonResult({ error: `Project "${params.slug}" is already archived` });
+  }
+
+  const { tasks } = projectTasks(config, project.slug);
+  const open = tasks.filter((t) => !isClosedStatus(config.workflow, t.frontmatter.status));
+  if (open.length > 0 && !params.force) {
+    return jsonResult({
+      error: `Project "${params.slug}" still has ${open.length} open task(s). Finish or move them first, or pass force: true.`,
+      open_tasks: open.map((t) => ({
+        id: t.frontmatter.id,
+        title: t.title,
+        status: t.frontmatter.status,
+      })),
+    });
+  }
+
+  const archiveDir = path.join(config.projectsFolder, "Archive");
+  fs.mkdirSync(archiveDir, { recursive: true });
+  const archivePath = path.join(archiveDir, project.slug + ".md");
+  project.frontmatter.archived_at = new Date().toISOString();
+  writeProjectNote(config, project, tasks, { targetPath: archivePath });
+  fs.unlinkSync(project.filePath);
+
+  return jsonResult({
+    archived: true,
+    project: { slug: project.slug, display_name: project.frontmatter.display_name },
+    open_tasks: open.length,
+  });
+}
+
+function checkSlug(slug: string): string | null {
+  if (!slug.trim() || sanitizeFilename(slug) !== slug || slug === "Archive") {
+    return `Invalid project slug "${slug}"`;
+  }
+  return null;
+}
+
+function listVaultNotes(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name.startsWith(".")) return [];
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listVaultNotes(fullPath);
+    return entry.name.endsWith(".md") ? [fullPath] : [];
+  });
+}
+
+// Rewrites [[Projects/from]] and [[Projects/Archive/from]] links, keeping any
+// heading and alias, in every note of the vault. A bare [[from]] is only
+// rewritten when no other note has that name, since the link could otherwise
+// point at that note rather than the project.
+function rewriteProjectLinks(
+  config: VaultConfig,
+  from: string,
+  to: string,
+  dryRun: boolean
+): string[] {
+  const notes = listVaultNotes(config.vaultPath);
+  const projectNotes = [
+    path.join(config.projectsFolder, from + ".md"),
+    path.join(config.projectsFolder, "Archive", from + ".md"),
+  ];
+  const bareIsProject = !notes.some(
+    (f) =>
+      path.basename(f, ".md").toLowerCase() === from.toLowerCase() &&
+      !projectNotes.includes(f)
+  );
+  const folder = path.relative(config.vaultPath, config.projectsFolder).split(path.sep).join("/");
+  const folders = [...(bareIsProject ? [""] : []), `${folder}/`, `${folder}/Archive/`].map(
+    (f) => f.toLowerCase()
+  );
+  const changed: string[] = [];
+  for (const filePath of notes) {
+    const source = fs.readFileSync(filePath, "utf-8");
+    const output = source.replace(WIKILINK, (link, target: string, rest: string) => {
+      const name = target.trim().replace(/\.md$/i, "");
+      const slash = name.lastIndexOf("/");
+      const prefix = name.slice(0, slash + 1);
+      if (name.slice(slash + 1).toLowerCase() !== from.toLowerCase()) return link;
+      if (!folders.includes(prefix.toLowerCase())) return link;
+      return `[[${prefix}${to}${rest}]]`;
+    });
+    if (output === source) continue;
+    changed.push(filePath);
+    if (!dryRun) fs.writeFileSync(filePath, output, "utf-8");
+  }
+  return changed;
+}
+
+function retargetTasks(
+  config: VaultConfig,
+  from: string,
+  to: string,
+  dryRun: boolean
+): string[] {
+  const { tasks, archived } = projectTasks(config, from);
+  for (const task of dryRun ? [] : [...tasks, ...archived]) {
+    const fm = { ...task.frontmatter, project: to };
+    writeTaskFile(task.filePath, fm, task.body);
+    recordHistory(config, "updated", task, { ...task, frontmatter: fm });
+  }
+  return [...tasks, ...archived].map((t) => t.filePath);
+}
+
+function moveResult(
+  config: VaultConfig,
+  dryRun: boolean,
+  taskFiles: string[],
+  linkFiles: string[],
+  otherFiles: string[]
+): Record<string, unknown> {
+  const files = [...new Set([...taskFiles, ...linkFiles, ...otherFiles])].map((f) =>
+    path.relative(config.vaultPath, f)
+  );
+  return {
+    dry_run: dryRun,
+    files_changed: files.length,
+    tasks_updated: taskFiles.length,
+    files_with_links: linkFiles.length,
+    files: files.sort(),
+  };
+}
+
+export function renameProject(
+  config: VaultConfig,
+  params: { from: string; to: string; dryRun?: boolean }
+): ToolResult {
+  const { from, to } = params;
+  const dryRun = params.dryRun || false;
+  const slugError = checkSlug(to);
+  if (slugError) return jsonResult({ error: slugError });
+  if (from === to) return jsonResult({ error: "The new slug is the same as the old one" });
+
+  const project = findProject(config, from);
+  const { tasks, archived } = projectTasks(config, from);
+  if (!project && tasks.length === 0 && archived.length === 0) {
+    return jsonResult({ error: `Project "${from}" not found` });
+  }
+  const existing = projectTasks(config, to);
+  if (findProject(config, to) || existing.tasks.length > 0 || existing.archived.length > 0) {
+    return jsonResult({
+      error: `Project "${to}" already exists. Use merge_projects to combine the two.`,
+    });
+  }
+  const fromFolder = path.join(config.projectsFolder, from);
+  const toFolder = path.join(config.projectsFolder, to);
+  if (fs.existsSync(fromFolder) && fs.existsSync(toFolder)) {
+    return jsonResult({ error: `Folder "${path.relative(config.vaultPath, toFolder)}" already exists` });
+  }
+
+  const taskFiles = retargetTasks(config, from, to, dryRun);
+  const linkFiles = rewriteProjectLinks(config, from, to, dryRun);
+  const otherFiles: string[] = [];
+  if (project) {
+    const targetPath = path.join(path.dirname(project.filePath), to + ".md");
+    otherFiles.push(project.filePath, targetPath);
+    if (!dryRun) {
+      project.frontmatter.slug = to;
+      if (project.frontmatter.display_name === from) project.frontmatter.display_name = to;
+      writeProjectNote(config, project, projectTasks(config, to).tasks, { targetPath });
+      fs.unlinkSync(project.filePath);
+    }
+  }
+  if (fs.existsSync(fromFolder)) {
+    otherFiles.push(projectBoardFile(config, from));
+    if (!dryRun) fs.renameSync(fromFolder, toFolder);
+  }
+
+  return jsonResult({
+    renamed: !dryRun,
+    from,
+    to,
+    ...moveResult(config, dryRun, taskFiles, linkFiles, otherFiles),
+  });
+}
+
+export function mergeProjects(
+  config: VaultConfig,
+  params: { sources: string[]; target: string; dryRun?: boolean }
+): ToolResult {
+  const { target } = params;
+  const sources = [...new Set(params.sources)];
+  const dryRun = params.dryRun || false;
+  const slugError = checkSlug(target);
+  if (slugError) return jsonResult({ error: slugError });
+  if (sources.length === 0) return jsonResult({ error: "Give at least one project to merge" });
+  if (sources.includes(target)) {
+    return jsonResult({ error: `Cannot merge project "${target}" into itself` });
+  }
+  for (const slug of sources) {
+    const { tasks, archived } = projectTasks(config, slug);
+    if (!findProject(config, slug) && tasks.length === 0 && archived.length === 0) {
+      return jsonResult({ error: `Project "${slug}" not found` });
+    }
+  }
+
+  const taskFiles: string[] = [];
+  const linkFiles: string[] = [];
+  const otherFiles: string[] = [];
+  let needsBoard = false;
+  for (const slug of sources) {
+    taskFiles.push(...retargetTasks(config, slug, target, dryRun));
+    linkFiles.push(...rewriteProjectLinks(config, slug, target, dryRun));
+
+    // The source note is folded into the target's: goals are combined and its
+    // description is appended under its own heading.
+    const source = findProject(config, slug);
+    const into = findProject(config, target);
+    if (source) {
+      otherFiles.push(source.filePath);
+      if (into) {
+        otherFiles.push(into.filePath);
+      } else {
+        otherFiles.push(path.join(config.projectsFolder, target + ".md"));
+      }
+    }
+    if (source && !dryRun) {
+      const merged: ParsedProject = into || {
+        ...source,
+        slug: target,
+        frontmatter: { ...source.frontmatter, slug: target, display_name: target },
+        description: "",
+        filePath: path.join(config.projectsFolder, target + ".md"),
+        archived: false,
+      };
+      merged.frontmatter.goals = [
+        ...new Set([...merged.frontmatter.goals, ...source.frontmatter.goals]),
+      ];
+      const description = [
+        merged.description,
+        source.description &&
+          `## From ${source.frontmatter.display_name}\n\n${source.description}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+      writeProjectNote(config, merged, projectTasks(config, target).tasks, { description });
+      fs.unlinkSync(source.filePath);
+    }
+
+    if (fs.existsSync(projectBoardFile(config, slug))) {
+      otherFiles.push(projectBoardFile(config, slug));
+      needsBoard = true;
+      if (!dryRun) setProjectBoard(config, slug, false);
+    }
+  }
+
+  if (!dryRun) {
+    if (fs.existsSync(projectBoardFile(config, target))) {
+      syncBoardWithFiles(config, { project: target });
+    } else if (needsBoard) {
+      setProjectBoard(config, target, true);
+    }
+    refreshProjectNotes(config, [target]);
+  }
+
+  return jsonResult({
+    merged: !dryRun,
+    sources,
+    target,
+    ...moveResult(config, dryRun, taskFiles, linkFiles, otherFiles),
+  });
+}
@@ -1,9 +1,23 @@
 import * as fs from "fs";
 import * as path from "path";
+import { randomUUID } from "crypto";
 import matter from "gray-matter";
+import {
+  type WorkflowConfig,
+  DEFAULT_WORKFLOW,
+  isClosedStatus,
+  statusColumn,
+  columnStatus,
+  checkTransition,
+} from "./workflow.js";
+import { type HistoryActor, recordHistory } from "./task-history.js";
+import { localDate, localTime } from "./task-dates.js";
+import { nextOccurrenceFor } from "./task-recurrence.js";
+import { type PlanningConfig, DEFAULT_PLANNING } from "./task-planning.js";
 
 export interface TaskFrontmatter {
-  status: "backlog" | "next" | "working" | "blocked" | "done" | "archived";
+  id: string;
+  status: string;
   assignee: "me" | "assistant";
   priority: "low" | "medium" | "high";
   project?: string;
@@ -12,7 +26,19 @@ export interface TaskFrontmatter {
   follow_up_date?: string;
   created_at: string;
   completed_at?: string;
+  archived_at?: string;
   tags?: string[];
+  recurrence?: string;
+  previous_occurrence?: string;
+  depends_on?: string[];
+  estimate?: number;
+}
+
+export interface Subtask {
+  text: string;
+  done: boolean;
+  level: number;
+  line: number;
 }
 
 export interface ParsedTask {
@@ -21,11 +47,27 @@ export interface ParsedTask {
   frontmatter: TaskFrontmatter;
   body: string;
   filePath: string;
+  subtasks: Subtask[];
+  tags: string[];
+}
+
+export interface BoardItem {
+  title: string;
+  completed: boolean;
+  date?: string;
+  time?: string;
+  line?: string;
 }
 
 export interface BoardColumn {
   name: string;
-  items: Array<{ title: string; completed: boolean; date?: string }>;
+  items: BoardItem[];
+}
+
+export interface BoardCardPosition {
+  column: string;
+  index: number;
+  item: BoardItem;
 }
 
 export interface VaultConfig {
@@ -34,34 +76,53 @@ export interface VaultConfig {
   boardFile: string;
   projectsFolder: string;
   templateFile: string;
+  dailyNotesFolder: string;
+  dailyTemplateFile: string;
   followUpsFile: string;
+  syncStateFile: string;
+  conflictsFile: string;
+  historyFile: string;
+  trashFolder: string;
+  timeLogFile: string;
+  timersFile: string;
+  trashRetentionDays: number;
+  autoArchiveDays: number | null;
+  globalBoard: "all" | "unprojected";
+  timezone: string;
+  autoStartTimer: boolean;
+  autoDailyNote: boolean;
+  planning: PlanningConfig;
+  workflow: WorkflowConfig;
+  actor?: HistoryActor;
 }
 
-const STATUS_TO_COLUMN: Record<TaskFrontmatter["status"], string> = {
-  backlog: "Backlog",
-  next: "Next",
-  working: "Working",
-  blocked: "Blocked",
-  done: "Done",
-  archived: "Done",
-};
-
-const COLUMN_TO_STATUS: Record<string, TaskFrontmatter["status"]> = {
-  Backlog: "backlog",
-  Next: "next",
-  Working: "working",
-  Blocked: "blocked",
-  Done: "done",
-};
-
-export function getDefaultVaultConfig(vaultPath: string): VaultConfig {
+export function getDefaultVaultConfig(
+  vaultPath: string,
+  workflow: WorkflowConfig = DEFAULT_WORKFLOW
+): VaultConfig {
   return {
     vaultPath,
     tasksFolder: path.join(vaultPath, "Tasks"),
     boardFile: path.join(vaultPath, "Tasks", "Board.md"),
     projectsFolder: path.join(vaultPath, "Projects"),
     templateFile: path.join(vaultPath, "Templates", "Task.md"),
+    dailyNotesFolder: path.join(vaultPath, "Daily"),
+    dailyTemplateFile: path.join(vaultPath, "Templates", "Daily.md"),
     followUpsFile: path.join(vaultPath, "Follow-Ups.md"),
+    syncStateFile: path.join(vaultPath, "Tasks", ".sync-state.json"),
+    conflictsFile: path.join(vaultPath, "Sync Conflicts.md"),
+    historyFile: path.join(vaultPath, "Tasks", ".history.jsonl"),
+    trashFolder: path.join(vaultPath, "Tasks", ".trash"),
+    timeLogFile: path.join(vaultPath, "Tasks", ".time-log.jsonl"),
+    timersFile: path.join(vaultPath, "Tasks", ".timers.json"),
+    trashRetentionDays: 30,
+    autoArchiveDays: null,
+    globalBoard: "all",
+    timezone: "UTC",
+    autoStartTimer: false,
+    autoDailyNote: false,
+    planning: DEFAULT_PLANNING,
+    workflow,
   };
 }
 
@@ -77,66 +138,185 @@ export function ensureVaultStructure(config: VaultConfig): void {
       fs.mkdirSync(dir, { recursive: true });
     }
   }
-  if (!fs.existsSync(config.boardFile)) {
-    const defaultBoard = [
-      "---",
-      "kanban-plugin: basic",
-      "---",
-      "",
-      "## Backlog",
-      "",
-      "",
-      "## Next",
-      "",
-      "",
-      "## Working",
-      "",
-      "",
-      "## Blocked",
-      "",
-      "",
-      "## Done",
-      "",
-      "**Complete**",
-      "",
-    ].join("\n");
-    fs.writeFileSync(config.boardFile, defaultBoard, "utf-8");
+  if (!fs.existsSync(config.boardFile)) createBoardFile(config, config.boardFile);
+}
+
+// Estimates like "3", "2.5h" or "5 pts" keep their number; the unit comes
+// from the planning config.
+export function normalizeEstimate(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const match = value.match(/^\s*(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function normalizeDate(value: unknown): string | undefined {
+  if (!value) return undefined;
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  return String(value);
+}
+
+export function generateTaskId(): string {
+  return randomUUID().split("-")[0];
+}
+
+export function parseWikilinks(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.flat(Infinity) : value ? [value] : [];
+  const titles: string[] = [];
+  for (const entry of raw) {
+    const text = String(entry);
+    const links = Array.from(text.matchAll(/\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g));
+    if (links.length > 0) {
+      titles.push(...links.map((m) => m[1].trim()));
+    } else if (text.trim()) {
+      titles.push(text.trim());
+    }
   }
+  return Array.from(new Set(titles));
+}
+
+const CHECKLIST_ITEM = /^(\s*)[-*+] \[([ xX])\] (.*)$/;
+
+export function parseChecklist(body: string): Subtask[] {
+  const subtasks: Subtask[] = [];
+  const indentStack: number[] = [];
+  let inFence = false;
+  body.split("\n").forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+    const match = line.match(CHECKLIST_ITEM);
+    if (!match) return;
+    const width = match[1].replace(/\t/g, "    ").length;
+    while (indentStack.length > 0 && indentStack[indentStack.length - 1] >= width) {
+      indentStack.pop();
+    }
+    subtasks.push({
+      text: match[3].trim(),
+      done: match[2] !== " ",
+      level: indentStack.length,
+      line: index,
+    });
+    indentStack.push(width);
+  });
+  return subtasks;
+}
+
+const INLINE_TAG = /(?:^|\s)#([\p{L}\p{N}_/-]+)/gu;
+const TAG = /^[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*$/u;
+
+export function isValidTag(tag: string): boolean {
+  return TAG.test(tag);
+}
+
+// Tags are case-insensitive, as in Obsidian; the first spelling seen is kept.
+export function mergeTags(...lists: string[][]): string[] {
+  const byKey = new Map<string, string>();
+  for (const tag of lists.flat()) {
+    const key = tag.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, tag);
+  }
+  return Array.from(byKey.values());
+}
+
+export function normalizeTags(value: unknown): string[] {
+  const raw = Array.isArray(value)
+    ? value.flat(Infinity)
+    : typeof value === "string"
+      ? value.split(/[,\s]+/)
+      : [];
+  return mergeTags(raw.map((t) => String(t).trim().replace(/^#/, "")).filter(Boolean));
+}
+
+// Hashtags in the body outside code; purely numeric ones like #123 are issue
+// references rather than tags.
+export function parseInlineTags(body: string): string[] {
+  const tags: string[] = [];
+  let inFence = false;
+  for (const line of body.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    for (const match of line.replace(/`[^`]*`/g, "").matchAll(INLINE_TAG)) {
+      if (isValidTag(match[1])) tags.push(match[1]);
+    }
+  }
+  return mergeTags(tags);
+}
+
+const taskCache = new Map<
+  string,
+  { mtimeMs: number; size: number; task: ParsedTask }
+>();
+
+function cloneTask(task: ParsedTask): ParsedTask {
+  return { ...task, frontmatter: { ...task.frontmatter } };
 }
 
 export function parseTaskFile(filePath: string): ParsedTask | null {
-  if (!fs.existsSync(filePath)) return null;
+  if (!fs.existsSync(filePath)) {
+    taskCache.delete(filePath);
+    return null;
+  }
+  const stat = fs.statSync(filePath);
+  const cached = taskCache.get(filePath);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cloneTask(cached.task);
+  }
+  const task = readTaskFile(filePath);
+  taskCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, task });
+  return cloneTask(task);
+}
+
+function readTaskFile(filePath: string): ParsedTask {
   const raw = fs.readFileSync(filePath, "utf-8");
   const parsed = matter(raw);
   const filename = path.basename(filePath, ".md");
-  const fm = parsed.data as Partial<TaskFrontmatter>;
-  const frontmatter: TaskFrontmatter = {
-    status: fm.status || "backlog",
-    assignee: fm.assignee || "me",
-    priority: fm.priority || "medium",
-    project: fm.project || undefined,
-    due_date: fm.due_date || undefined,
-    blocked_by: fm.blocked_by || undefined,
-    follow_up_date: fm.follow_up_date || undefined,
-    created_at: fm.created_at || new Date().toISOString(),
-    completed_at: fm.completed_at || undefined,
-    tags: fm.tags || [],
-  };
+  const body = parsed.content.trim();
+  const frontmatter = normalizeFrontmatter(parsed.data);
   return {
     filename,
     title: filename,
     frontmatter,
-    body: parsed.content.trim(),
+    body,
     filePath,
+    subtasks: parseChecklist(body),
+    tags: mergeTags(frontmatter.tags || [], parseInlineTags(body)),
   };
 }
 
-export function writeTaskFile(
-  filePath: string,
-  frontmatter: TaskFrontmatter,
-  body: string
-): void {
+function normalizeFrontmatter(data: Record<string, unknown>): TaskFrontmatter {
+  const fm = data as Partial<TaskFrontmatter>;
+  return {
+    id: fm.id ? String(fm.id) : "",
+    status: fm.status || "backlog",
+    assignee: fm.assignee || "me",
+    priority: fm.priority || "medium",
+    project: fm.project || undefined,
+    due_date: normalizeDate(fm.due_date),
+    blocked_by: fm.blocked_by || undefined,
+    follow_up_date: normalizeDate(fm.follow_up_date),
+    created_at: normalizeDate(fm.created_at) || new Date().toISOString(),
+    completed_at: normalizeDate(fm.completed_at),
+    archived_at: normalizeDate(fm.archived_at),
+    tags: normalizeTags(fm.tags),
+    recurrence: fm.recurrence || undefined,
+    previous_occurrence: fm.previous_occurrence || undefined,
+    depends_on: parseWikilinks(fm.depends_on),
+    estimate: normalizeEstimate(fm.estimate),
+  };
+}
+
+function frontmatterRecord(frontmatter: TaskFrontmatter): Record<string, unknown> {
   const cleanFm: Record<string, unknown> = {
+    id: frontmatter.id || generateTaskId(),
     status: frontmatter.status,
     assignee: frontmatter.assignee,
     priority: frontmatter.priority,
@@ -149,11 +329,127 @@ export function writeTaskFile(
   cleanFm.created_at = frontmatter.created_at;
   if (frontmatter.completed_at)
     cleanFm.completed_at = frontmatter.completed_at;
+  if (frontmatter.archived_at) cleanFm.archived_at = frontmatter.archived_at;
   if (frontmatter.tags && frontmatter.tags.length > 0)
     cleanFm.tags = frontmatter.tags;
+  if (frontmatter.recurrence) cleanFm.recurrence = frontmatter.recurrence;
+  if (frontmatter.previous_occurrence)
+    cleanFm.previous_occurrence = frontmatter.previous_occurrence;
+  if (frontmatter.depends_on && frontmatter.depends_on.length > 0)
+    cleanFm.depends_on = frontmatter.depends_on.map((t) => `[[${t}]]`);
+  if (frontmatter.estimate !== undefined) cleanFm.estimate = frontmatter.estimate;
+  return cleanFm;
+}
+
+const FRONTMATTER_BLOCK = /^---\r?\n((?:[\s\S]*?\r?\n)?)---[ \t]*(?:\r?\n|$)/;
+const FRONTMATTER_KEY = /^([^\s#-][^:]*?)\s*:(?:\s|$)/;
 
-  const output = matter.stringify(body ? "\n" + body + "\n" : "\n", cleanFm);
-  fs.writeFileSync(filePath, output, "utf-8");
+function dumpYaml(data: Record<string, unknown>): string[] {
+  return matter
+    .stringify("", data)
+    .replace(/^---\n/, "")
+    .replace(/---\n*$/, "")
+    .replace(/\n$/, "")
+    .split("\n");
+}
+
+// Patches the existing frontmatter text key by key so unknown keys, comments
+// and formatting of untouched values survive a write.
+function mergeFrontmatter(
+  source: string,
+  record: Record<string, unknown>,
+  toRecord: (data: Record<string, unknown>) => Record<string, unknown>
+): string[] {
+  const block = source.match(FRONTMATTER_BLOCK);
+  if (!block) return dumpYaml(record);
+  const original = toRecord(matter(source).data);
+
+  const entries: Array<{ key: string | null; lines: string[] }> = [];
+  const text = block[1].replace(/\r?\n$/, "");
+  for (const line of text ? text.split(/\r?\n/) : []) {
+    const keyMatch = line.match(FRONTMATTER_KEY);
+    if (keyMatch) {
+      entries.push({ key: keyMatch[1].trim(), lines: [line] });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].lines.push(line);
+    } else {
+      entries.push({ key: null, lines: [line] });
+    }
+  }
+
+  const lines: string[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const key = entry.key;
+    if (!key || !(key in record || key in original) || seen.has(key)) {
+      lines.push(...entry.lines);
+      continue;
+    }
+    seen.add(key);
+    const value = record[key];
+    if (JSON.stringify(value) === JSON.stringify(original[key])) {
+      lines.push(...entry.lines);
+    } else if (value !== undefined) {
+      lines.push(...dumpYaml({ [key]: value }));
+    }
+  }
+  for (const [key, value] of Object.entries(record)) {
+    if (!seen.has(key)) lines.push(...dumpYaml({ [key]: value }));
+  }
+  return lines;
+}
+
+// `toRecord` turns parsed frontmatter into the same shape as `record`, so
+// values that didn't change keep their original text.
+export function renderNoteFile(
+  source: string,
+  record: Record<string, unknown>,
+  body: string,
+  toRecord: (data: Record<string, unknown>) => Record<string, unknown>
+): string {
+  const yaml = mergeFrontmatter(source, record, toRecord);
+  const content = body ? "\n" + body + "\n" : "\n";
+  return `---\n${yaml.join("\n")}\n---\n${content}`;
+}
+
+export function writeNoteFile(
+  filePath: string,
+  record: Record<string, unknown>,
+  body: string,
+  toRecord: (data: Record<string, unknown>) => Record<string, unknown>,
+  sourcePath: string = filePath
+): void {
+  const source = fs.existsSync(sourcePath)
+    ? fs.readFileSync(sourcePath, "utf-8")
+    : "";
+  fs.writeFileSync(filePath, renderNoteFile(source, record, body, toRecord), "utf-8");
+}
+
+export function writeTaskFile(
+  filePath: string,
+  frontmatter: TaskFrontmatter,
+  body: string,
+  sourcePath: string = filePath,
+  extraFields: Record<string, unknown> = {}
+): void {
+  writeNoteFile(
+    filePath,
+    { ...frontmatterRecord(frontmatter), ...extraFields },
+    body,
+    (data) => frontmatterRecord(normalizeFrontmatter(data)),
+    sourcePath
+  );
+  taskCache.delete(filePath);
+}
+
+export function restoreTaskFile(filePath: string, content: string | null): void {
+  if (content === null) {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, "utf-8");
+  }
+  taskCache.delete(filePath);
 }
 
 export function listTaskFiles(tasksFolder: string): ParsedTask[] {
@@ -166,41 +462,132 @@ export function listTaskFiles(tasksFolder: string): ParsedTask[] {
     const stat = fs.statSync(filePath);
     if (stat.isDirectory()) continue;
     const task = parseTaskFile(filePath);
-    if (task) tasks.push(task);
+    if (!task) continue;
+    if (!task.frontmatter.id) {
+      task.frontmatter.id = generateTaskId();
+      writeTaskFile(filePath, task.frontmatter, task.body);
+    }
+    tasks.push(task);
   }
   return tasks;
 }
 
-export function parseBoardFile(boardPath: string): BoardColumn[] {
-  if (!fs.existsSync(boardPath)) return [];
-  const raw = fs.readFileSync(boardPath, "utf-8");
-  const parsed = matter(raw);
-  const content = parsed.content;
-  const columns: BoardColumn[] = [];
-  let currentColumn: BoardColumn | null = null;
+const CARD_LINE = /^- \[([ xX])\] \[\[([^\]|]+)(\|[^\]]*)?\]\]/;
+const CARD_DATE = /\s*(?<!@)@\{([^}]*)\}/;
+const CARD_TIME = /\s*@@\{([^}]*)\}/;
+
+interface BoardSection {
+  name: string;
+  heading: string;
+  blocks: Array<{ item?: BoardItem; lines: string[] }>;
+}
 
-  for (const line of content.split("\n")) {
+function splitBoard(raw: string): {
+  head: string[];
+  sections: BoardSection[];
+  footer: string[];
+} {
+  const lines = raw.split("\n");
+  const head: string[] = [];
+  const sections: BoardSection[] = [];
+  let i = 0;
+  if (lines[0]?.trim() === "---") {
+    const close = lines.findIndex((l, idx) => idx > 0 && l.trim() === "---");
+    if (close > 0) {
+      head.push(...lines.slice(0, close + 1));
+      i = close + 1;
+    }
+  }
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith("%% kanban:settings")) break;
     const columnMatch = line.match(/^## (.+)$/);
     if (columnMatch) {
-      if (currentColumn) columns.push(currentColumn);
-      currentColumn = { name: columnMatch[1].trim(), items: [] };
+      sections.push({ name: columnMatch[1].trim(), heading: line, blocks: [] });
+      continue;
+    }
+    const section = sections[sections.length - 1];
+    if (!section) {
+      head.push(line);
       continue;
     }
-    if (!currentColumn) continue;
-    const itemMatch = line.match(/^- \[([ x])\] \[\[(.+?)\]\](?:\s*@\{(.+?)\})?/);
-    if (itemMatch) {
-      currentColumn.items.push({
-        title: itemMatch[2],
-        completed: itemMatch[1] === "x",
-        date: itemMatch[3] || undefined,
+    const last = section.blocks[section.blocks.length - 1];
+    const cardMatch = line.match(CARD_LINE);
+    if (cardMatch) {
+      section.blocks.push({
+        item: {
+          title: cardMatch[2].trim(),
+          completed: cardMatch[1] !== " ",
+          date: line.match(CARD_DATE)?.[1] || undefined,
+          time: line.match(CARD_TIME)?.[1] || undefined,
+          line,
+        },
+        lines: [line],
       });
+    } else if (last?.item && /^\s+\S/.test(line)) {
+      last.lines.push(line);
+      last.item.line = last.lines.join("\n");
+    } else {
+      section.blocks.push({ lines: [line] });
     }
   }
-  if (currentColumn) columns.push(currentColumn);
-  return columns;
+  return { head, sections, footer: lines.slice(i) };
 }
 
-export function writeBoardFile(boardPath: string, columns: BoardColumn[]): void {
+export function parseBoardFile(boardPath: string): BoardColumn[] {
+  if (!fs.existsSync(boardPath)) return [];
+  const raw = fs.readFileSync(boardPath, "utf-8");
+  return splitBoard(raw).sections.map((section) => ({
+    name: section.name,
+    items: section.blocks.flatMap((b) => (b.item ? [{ ...b.item }] : [])),
+  }));
+}
+
+function renderCard(item: BoardItem): string[] {
+  const check = item.completed ? "x" : " ";
+  if (!item.line) {
+    const datePart = item.date ? ` @{${item.date}}` : "";
+    const timePart = item.date && item.time ? ` @@{${item.time}}` : "";
+    return [`- [${check}] [[${item.title}]]${datePart}${timePart}`];
+  }
+  const [first, ...rest] = item.line.split("\n");
+  const cardMatch = first.match(CARD_LINE);
+  if (!cardMatch) return item.line.split("\n");
+  let line = first;
+  if ((cardMatch[1] !== " ") !== item.completed) {
+    line = line.replace(/^- \[[ xX]\]/, `- [${check}]`);
+  }
+  if (cardMatch[2].trim() !== item.title) {
+    line = line.replace(
+      /\[\[[^\]|]+(\|[^\]]*)?\]\]/,
+      (_m, alias: string | undefined) => `[[${item.title}${alias || ""}]]`
+    );
+  }
+  const currentDate = line.match(CARD_DATE)?.[1] || undefined;
+  if (currentDate !== item.date) {
+    if (!item.date) {
+      line = line.replace(CARD_DATE, "");
+    } else if (currentDate !== undefined) {
+      line = line.replace(CARD_DATE, (m) => m.replace(/@\{[^}]*\}/, `@{${item.date}}`));
+    } else {
+      line = line.replace(/\]\]/, `]] @{${item.date}}`);
+    }
+  }
+  const currentTime = line.match(CARD_TIME)?.[1] || undefined;
+  const time = item.date ? item.time : undefined;
+  if (currentTime !== time) {
+    if (!time) {
+      line = line.replace(CARD_TIME, "");
+    } else if (currentTime !== undefined) {
+      line = line.replace(CARD_TIME, (m) => m.replace(/@@\{[^}]*\}/, `@@{${time}}`));
+    } else {
+      line = line.replace(CARD_DATE, (m) => `${m} @@{${time}}`);
+    }
+  }
+  return [line, ...rest];
+}
+
+function renderBoard(columns: BoardColumn[], completeColumn?: string): string {
   const lines: string[] = [
     "---",
     "kanban-plugin: basic",
@@ -211,59 +598,231 @@ export function writeBoardFile(boardPath: string, columns: BoardColumn[]): void
     lines.push(`## ${col.name}`);
     lines.push("");
     for (const item of col.items) {
-      const check = item.completed ? "x" : " ";
-      const datePart = item.date ? ` @{${item.date}}` : "";
-      lines.push(`- [${check}] [[${item.title}]]${datePart}`);
+      lines.push(...renderCard(item));
     }
-    if (col.name === "Done") {
+    if (col.name === completeColumn) {
       lines.push("");
       lines.push("**Complete**");
     }
     lines.push("");
   }
+  return lines.join("\n");
+}
+
+function patchSection(section: BoardSection, items: BoardItem[]): string[] {
+  const wanted = new Map(items.map((item) => [item.title, item]));
+  const present = new Set(section.blocks.flatMap((b) => (b.item ? [b.item.title] : [])));
+  // New cards go right after the existing card they follow in `items`, so a
+  // restored card lands back in its old position.
+  const following = new Map<string | null, BoardItem[]>();
+  let previous: string | null = null;
+  for (const item of items) {
+    if (present.has(item.title)) {
+      previous = item.title;
+    } else {
+      following.set(previous, [...(following.get(previous) || []), item]);
+    }
+  }
+
+  const lines: string[] = [section.heading];
+  let firstCard = -1;
+  for (const block of section.blocks) {
+    if (!block.item) {
+      lines.push(...block.lines);
+      continue;
+    }
+    const item = wanted.get(block.item.title);
+    if (!item) continue;
+    wanted.delete(block.item.title);
+    if (firstCard < 0) firstCard = lines.length;
+    lines.push(...renderCard(item));
+    lines.push(...(following.get(item.title) || []).flatMap(renderCard));
+  }
+  const leading = (following.get(null) || []).flatMap(renderCard);
+  if (leading.length > 0) {
+    if (firstCard < 0) firstCard = lines[1] === "" ? 2 : 1;
+    lines.splice(firstCard, 0, ...leading);
+  }
+  return lines;
+}
+
+// Rewrites only the card lines that changed; frontmatter, the settings
+// footer, custom columns and any non-card text are kept as they were.
+export function writeBoardFile(boardPath: string, columns: BoardColumn[]): void {
+  if (!fs.existsSync(boardPath)) {
+    fs.writeFileSync(boardPath, renderBoard(columns), "utf-8");
+    return;
+  }
+  const { head, sections, footer } = splitBoard(fs.readFileSync(boardPath, "utf-8"));
+  const remaining = [...columns];
+  const lines: string[] = [...head];
+  for (const section of sections) {
+    const index = remaining.findIndex((c) => c.name === section.name);
+    if (index < 0) {
+      lines.push(section.heading, ...section.blocks.flatMap((b) => b.lines));
+      continue;
+    }
+    lines.push(...patchSection(section, remaining[index].items));
+    remaining.splice(index, 1);
+  }
+  for (const col of remaining) {
+    lines.push(`## ${col.name}`, "", ...col.items.flatMap(renderCard), "");
+  }
+  lines.push(...footer);
   fs.writeFileSync(boardPath, lines.join("\n"), "utf-8");
 }
 
+const boardBatches = new Map<string, BoardColumn[]>();
+
+function loadBoard(boardPath: string): BoardColumn[] {
+  return boardBatches.get(boardPath) || parseBoardFile(boardPath);
+}
+
+function saveBoard(boardPath: string, columns: BoardColumn[]): void {
+  if (boardBatches.has(boardPath)) {
+    boardBatches.set(boardPath, columns);
+  } else {
+    writeBoardFile(boardPath, columns);
+  }
+}
+
+export function batchBoardWrites(boardPaths: string[], apply: () => boolean): void {
+  const started = boardPaths.filter((boardPath) => !boardBatches.has(boardPath));
+  for (const boardPath of started) {
+    boardBatches.set(boardPath, parseBoardFile(boardPath));
+  }
+  try {
+    const commit = apply();
+    for (const boardPath of started) {
+      const columns = boardBatches.get(boardPath);
+      if (commit && columns) writeBoardFile(boardPath, columns);
+    }
+  } finally {
+    for (const boardPath of started) boardBatches.delete(boardPath);
+  }
+}
+
+export function projectBoardFile(config: VaultConfig, slug: string): string {
+  return path.join(config.projectsFolder, slug, "Board.md");
+}
+
+export function listProjectBoards(config: VaultConfig): string[] {
+  if (!fs.existsSync(config.projectsFolder)) return [];
+  return fs
+    .readdirSync(config.projectsFolder, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        entry.name !== "Archive" &&
+        fs.existsSync(projectBoardFile(config, entry.name))
+    )
+    .map((entry) => entry.name);
+}
+
+export function listBoardFiles(config: VaultConfig): string[] {
+  return [
+    config.boardFile,
+    ...listProjectBoards(config).map((slug) => projectBoardFile(config, slug)),
+  ];
+}
+
+// A task's card goes on the global board (unless it only shows unprojected
+// tasks) and on its project's board when the project has one.
+export function taskBoardFiles(config: VaultConfig, project?: string): string[] {
+  const boards: string[] = [];
+  if (!project || config.globalBoard === "all") boards.push(config.boardFile);
+  if (project && fs.existsSync(projectBoardFile(config, project))) {
+    boards.push(projectBoardFile(config, project));
+  }
+  return boards;
+}
+
+export function createBoardFile(config: VaultConfig, boardPath: string): void {
+  fs.mkdirSync(path.dirname(boardPath), { recursive: true });
+  fs.writeFileSync(
+    boardPath,
+    renderBoard(
+      config.workflow.statuses.map((s) => ({ name: s.column, items: [] })),
+      statusColumn(config.workflow, config.workflow.doneStatus)
+    ),
+    "utf-8"
+  );
+}
+
+function boardColumnFor(
+  columns: BoardColumn[],
+  workflow: WorkflowConfig,
+  status: TaskFrontmatter["status"]
+): BoardColumn {
+  const targetCol = statusColumn(workflow, status);
+  let column = columns.find((c) => c.name === targetCol);
+  if (!column) {
+    column = { name: targetCol, items: [] };
+    columns.push(column);
+  }
+  return column;
+}
+
+// Card dates are shown in the user's timezone: @{date} for the local day and
+// @@{time} when the due date has a time.
+export function cardDate(
+  config: VaultConfig,
+  dueDate: string | undefined
+): Pick<BoardItem, "date" | "time"> {
+  return {
+    date: dueDate ? localDate(dueDate, config.timezone) : undefined,
+    time: (dueDate && localTime(dueDate, config.timezone)) || undefined,
+  };
+}
+
 export function addToBoard(
   boardPath: string,
+  config: VaultConfig,
   title: string,
   status: TaskFrontmatter["status"],
   dueDate?: string
 ): void {
-  const columns = parseBoardFile(boardPath);
-  const targetCol = STATUS_TO_COLUMN[status] || "Backlog";
-  let column = columns.find((c) => c.name === targetCol);
-  if (!column) {
-    column = { name: targetCol, items: [] };
-    columns.push(column);
-  }
+  const columns = loadBoard(boardPath);
+  const column = boardColumnFor(columns, config.workflow, status);
   const alreadyExists = column.items.some((i) => i.title === title);
   if (!alreadyExists) {
     column.items.push({
       title,
-      completed: status === "done" || status === "archived",
-      date: dueDate,
+      completed: isClosedStatus(config.workflow, status),
+      ...cardDate(config, dueDate),
     });
   }
-  writeBoardFile(boardPath, columns);
+  saveBoard(boardPath, columns);
 }
 
 export function removeFromBoard(boardPath: string, title: string): void {
-  const columns = parseBoardFile(boardPath);
+  const columns = loadBoard(boardPath);
   for (const col of columns) {
     col.items = col.items.filter((i) => i.title !== title);
   }
-  writeBoardFile(boardPath, columns);
+  saveBoard(boardPath, columns);
 }
 
 export function moveOnBoard(
   boardPath: string,
+  config: VaultConfig,
   title: string,
   newStatus: TaskFrontmatter["status"],
   dueDate?: string
 ): void {
-  removeFromBoard(boardPath, title);
-  addToBoard(boardPath, title, newStatus, dueDate);
+  const columns = loadBoard(boardPath);
+  let card: BoardItem | undefined;
+  for (const col of columns) {
+    card = card || col.items.find((i) => i.title === title);
+    col.items = col.items.filter((i) => i.title !== title);
+  }
+  boardColumnFor(columns, config.workflow, newStatus).items.push({
+    ...card,
+    title,
+    completed: isClosedStatus(config.workflow, newStatus),
+    ...cardDate(config, dueDate),
+  });
+  saveBoard(boardPath, columns);
 }
 
 export function renameOnBoard(
@@ -271,7 +830,7 @@ export function renameOnBoard(
   oldTitle: string,
   newTitle: string
 ): void {
-  const columns = parseBoardFile(boardPath);
+  const columns = loadBoard(boardPath);
   for (const col of columns) {
     for (const item of col.items) {
       if (item.title === oldTitle) {
@@ -279,58 +838,486 @@ export function renameOnBoard(
       }
     }
   }
-  writeBoardFile(boardPath, columns);
+  saveBoard(boardPath, columns);
+}
+
+export function setBoardDate(
+  boardPath: string,
+  config: VaultConfig,
+  title: string,
+  dueDate?: string
+): void {
+  const columns = loadBoard(boardPath);
+  for (const col of columns) {
+    for (const item of col.items) {
+      if (item.title === title) {
+        Object.assign(item, cardDate(config, dueDate));
+      }
+    }
+  }
+  saveBoard(boardPath, columns);
+}
+
+export function findBoardCard(
+  boardPath: string,
+  title: string
+): BoardCardPosition | null {
+  for (const col of loadBoard(boardPath)) {
+    const index = col.items.findIndex((i) => i.title === title);
+    if (index >= 0) return { column: col.name, index, item: { ...col.items[index] } };
+  }
+  return null;
+}
+
+export function restoreBoardCards(
+  boardPath: string,
+  titles: string[],
+  cards: BoardCardPosition[]
+): void {
+  const columns = loadBoard(boardPath);
+  for (const col of columns) {
+    col.items = col.items.filter((i) => !titles.includes(i.title));
+  }
+  for (const card of [...cards].sort((a, b) => a.index - b.index)) {
+    let column = columns.find((c) => c.name === card.column);
+    if (!column) {
+      column = { name: card.column, items: [] };
+      columns.push(column);
+    }
+    column.items.splice(card.index, 0, { ...card.item });
+  }
+  saveBoard(boardPath, columns);
+}
+
+export function listAllTasks(config: VaultConfig): ParsedTask[] {
+  return [
+    ...listTaskFiles(config.tasksFolder),
+    ...listTaskFiles(path.join(config.tasksFolder, "Archive")),
+  ];
+}
+
+export function openDependencies(
+  fm: TaskFrontmatter,
+  tasks: ParsedTask[],
+  workflow: WorkflowConfig
+): string[] {
+  return (fm.depends_on || []).filter((dep) => {
+    const match = tasks.find((t) => t.title === dep);
+    return match && !isClosedStatus(workflow, match.frontmatter.status);
+  });
+}
+
+export function applyDependencyStatus(
+  fm: TaskFrontmatter,
+  tasks: ParsedTask[],
+  workflow: WorkflowConfig,
+  requestedStatus?: TaskFrontmatter["status"]
+): void {
+  const blocked = workflow.blockedStatus;
+  if (!blocked || isClosedStatus(workflow, fm.status) || !fm.depends_on?.length) {
+    return;
+  }
+  if (openDependencies(fm, tasks, workflow).length > 0) {
+    fm.status = blocked;
+  } else if (
+    fm.status === blocked &&
+    !fm.blocked_by &&
+    requestedStatus !== blocked
+  ) {
+    fm.status = workflow.unblockedStatus;
+  }
+}
+
+export function unblockDependents(config: VaultConfig, title: string): string[] {
+  const tasks = listAllTasks(config);
+  const unblocked: string[] = [];
+  for (const task of listTaskFiles(config.tasksFolder)) {
+    if (!task.frontmatter.depends_on?.includes(title)) continue;
+    const fm = { ...task.frontmatter };
+    applyDependencyStatus(fm, tasks, config.workflow);
+    if (fm.status !== task.frontmatter.status) {
+      writeTaskFile(task.filePath, fm, task.body);
+      for (const board of taskBoardFiles(config, fm.project)) {
+        moveOnBoard(board, config, task.title, fm.status, fm.due_date);
+      }
+      recordHistory(config, "updated", task, { ...task, frontmatter: fm });
+      unblocked.push(task.title);
+    }
+  }
+  return unblocked;
+}
+
+function applyBoardStatus(
+  config: VaultConfig,
+  task: ParsedTask,
+  status: TaskFrontmatter["status"],
+  boardFile: string
+): void {
+  const fm = { ...task.frontmatter, status };
+  if (status === config.workflow.doneStatus && !fm.completed_at) {
+    fm.completed_at = new Date().toISOString();
+  }
+  writeTaskFile(task.filePath, fm, task.body);
+  recordHistory(config, "updated", task, { ...task, frontmatter: fm });
+  for (const board of taskBoardFiles(config, fm.project)) {
+    if (board !== boardFile) {
+      moveOnBoard(board, config, task.title, status, fm.due_date);
+    }
+  }
+  if (
+    isClosedStatus(config.workflow, status) &&
+    !isClosedStatus(config.workflow, task.frontmatter.status)
+  ) {
+    unblockDependents(config, task.title);
+    const finished = parseTaskFile(task.filePath);
+    if (finished) spawnNextOccurrence(config, finished);
+  }
+}
+
+function nextOccurrence(
+  config: VaultConfig,
+  task: ParsedTask
+): { title: string; dueDate: string } | null {
+  const recurrence = task.frontmatter.recurrence;
+  if (!recurrence) return null;
+  const dueDate = nextOccurrenceFor(recurrence, task.frontmatter.due_date, config.timezone);
+  if (!dueDate) return null;
+  const baseTitle = task.title.replace(/ \(\d{4}-\d{2}-\d{2}\)$/, "");
+  return { title: sanitizeFilename(`${baseTitle} (${dueDate})`), dueDate };
+}
+
+export function nextOccurrencePath(config: VaultConfig, task: ParsedTask): string | null {
+  const next = nextOccurrence(config, task);
+  return next ? path.join(config.tasksFolder, next.title + ".md") : null;
+}
+
+// Called whenever a recurring task moves into a closed status, from tools or
+// the board. Each finished task gets at most one follow-up: if an occurrence
+// already links back to it (say it was reopened and finished again), that one
+// is returned instead of spawning another.
+export function spawnNextOccurrence(config: VaultConfig, task: ParsedTask): ParsedTask | null {
+  const next = nextOccurrence(config, task);
+  if (!next) return null;
+  const spawned = listAllTasks(config).find((t) => parseWikilinks(t.frontmatter.previous_occurrence)[0] === task.title);
+  if (spawned) return spawned;
+
+  const filePath = path.join(config.tasksFolder, next.title + ".md");
+  if (fs.existsSync(filePath)) return parseTaskFile(filePath);
+
+  const frontmatter: TaskFrontmatter = {
+    id: generateTaskId(),
+    status: config.workflow.initialStatus,
+    assignee: task.frontmatter.assignee,
+    priority: task.frontmatter.priority,
+    project: task.frontmatter.project,
+    due_date: next.dueDate,
+    created_at: new Date().toISOString(),
+    tags: task.frontmatter.tags || [],
+    recurrence: task.frontmatter.recurrence,
+    previous_occurrence: `[[${task.title}]]`,
+  };
+
+  writeTaskFile(filePath, frontmatter, task.body, task.filePath);
+  for (const board of taskBoardFiles(config, frontmatter.project)) {
+    addToBoard(board, config, next.title, frontmatter.status, next.dueDate);
+  }
+  recordHistory(config, "created", null, { title: next.title, frontmatter, body: task.body });
+  return parseTaskFile(filePath);
+}
+
+interface SyncState {
+  lastSync: string;
+  tasks: Record<string, { title: string; status: TaskFrontmatter["status"] }>;
+}
+
+export interface SyncConflict {
+  id: string;
+  title: string;
+  fileStatus: TaskFrontmatter["status"];
+  boardColumn: string;
+  project?: string;
+  reason?: string;
+}
+
+export interface BoardSyncResult {
+  added: number;
+  moved: number;
+  removed: number;
+  created: number;
+  statusUpdated: number;
+  conflicts: SyncConflict[];
+}
+
+interface BoardScope {
+  project?: string;
+  boardFile: string;
+  syncStateFile: string;
+  conflictsFile: string;
+}
+
+function boardScope(config: VaultConfig, project?: string): BoardScope {
+  if (!project) {
+    return {
+      boardFile: config.boardFile,
+      syncStateFile: config.syncStateFile,
+      conflictsFile: config.conflictsFile,
+    };
+  }
+  const folder = path.join(config.projectsFolder, project);
+  return {
+    project,
+    boardFile: projectBoardFile(config, project),
+    syncStateFile: path.join(folder, ".sync-state.json"),
+    conflictsFile: path.join(folder, "Sync Conflicts.md"),
+  };
+}
+
+function readSyncState(syncStateFile: string): SyncState | null {
+  if (!fs.existsSync(syncStateFile)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(syncStateFile, "utf-8")) as SyncState;
+  } catch {
+    return null;
+  }
+}
+
+function writeConflictsNote(conflictsFile: string, conflicts: SyncConflict[]): void {
+  if (conflicts.length === 0 && !fs.existsSync(conflictsFile)) return;
+  const lines: string[] = [
+    "---",
+    `updated_at: ${new Date().toISOString()}`,
+    "---",
+    "",
+    "## Conflicts",
+    "",
+  ];
+  const changed = conflicts.filter((c) => !c.reason);
+  const rejected = conflicts.filter((c) => c.reason);
+  if (conflicts.length === 0) {
+    lines.push("No conflicts.");
+  }
+  if (changed.length > 0) {
+    lines.push(
+      "Both the task file and its Board.md card changed since the last sync. Edit one side to match the other to resolve.",
+      ""
+    );
+    for (const c of changed) {
+      lines.push(`- [[${c.title}]] — file: **${c.fileStatus}**, board: **${c.boardColumn}**`);
+    }
+  }
+  if (rejected.length > 0) {
+    if (changed.length > 0) lines.push("");
+    lines.push(
+      "These board moves are not allowed by the workflow, so the cards were put back.",
+      ""
+    );
+    for (const c of rejected) {
+      lines.push(`- [[${c.title}]] — board: **${c.boardColumn}**. ${c.reason}`);
+    }
+  }
+  lines.push("");
+  fs.writeFileSync(conflictsFile, lines.join("\n"), "utf-8");
 }
 
 export function syncBoardWithFiles(
-  config: VaultConfig
-): { added: number; moved: number; removed: number } {
+  config: VaultConfig,
+  options: { preferBoard?: boolean; project?: string } = {}
+): BoardSyncResult {
   ensureVaultStructure(config);
-  const tasks = listTaskFiles(config.tasksFolder);
-  const columns = parseBoardFile(config.boardFile);
-  const boardTitles = new Set<string>();
-  for (const col of columns) {
+  if (options.project) {
+    if (!fs.existsSync(projectBoardFile(config, options.project))) {
+      throw new Error(`Project "${options.project}" has no board`);
+    }
+    return syncBoard(config, boardScope(config, options.project), options);
+  }
+
+  // Project boards go first so that cards added there already have a task
+  // file when the global board is synced.
+  const results = [
+    ...listProjectBoards(config).map((slug) =>
+      syncBoard(config, boardScope(config, slug), options)
+    ),
+    syncBoard(config, boardScope(config), options),
+  ];
+  return results.reduce((total, r) => ({
+    added: total.added + r.added,
+    moved: total.moved + r.moved,
+    removed: total.removed + r.removed,
+    created: total.created + r.created,
+    statusUpdated: total.statusUpdated + r.statusUpdated,
+    conflicts: [...total.conflicts, ...r.conflicts],
+  }));
+}
+
+function syncBoard(
+  config: VaultConfig,
+  scope: BoardScope,
+  options: { preferBoard?: boolean }
+): BoardSyncResult {
+  const boardConfig: VaultConfig = {
+    ...config,
+    actor: { ...config.actor, channel: "board" },
+  };
+  const state = readSyncState(scope.syncStateFile);
+  const knownTitles = new Set(
+    Object.values(state?.tasks || {}).map((t) => t.title)
+  );
+  const allTasks = listTaskFiles(config.tasksFolder);
+  const tasks = allTasks.filter((t) =>
+    scope.project
+      ? t.frontmatter.project === scope.project
+      : config.globalBoard === "all" || !t.frontmatter.project
+  );
+  const otherTitles = new Set(
+    allTasks.filter((t) => !tasks.includes(t)).map((t) => t.title)
+  );
+  const cardColumns = new Map<string, string>();
+  for (const col of parseBoardFile(scope.boardFile)) {
     for (const item of col.items) {
-      boardTitles.add(item.title);
+      if (!cardColumns.has(item.title)) cardColumns.set(item.title, col.name);
     }
   }
   const fileTitles = new Set(tasks.map((t) => t.title));
   let added = 0;
   let moved = 0;
   let removed = 0;
+  let created = 0;
+  let statusUpdated = 0;
+  const conflicts: SyncConflict[] = [];
+  const nextState: SyncState["tasks"] = {};
+
+  for (const [title, column] of cardColumns) {
+    if (fileTitles.has(title)) continue;
+    const boardStatus = columnStatus(config.workflow, column);
+    if (!boardStatus) continue;
+    if (!state || knownTitles.has(title) || otherTitles.has(title)) {
+      removeFromBoard(scope.boardFile, title);
+      removed++;
+      continue;
+    }
+    const fileTitle = sanitizeFilename(title);
+    const filePath = path.join(config.tasksFolder, fileTitle + ".md");
+    if (fileTitle !== title) {
+      renameOnBoard(scope.boardFile, title, fileTitle);
+      cardColumns.set(fileTitle, column);
+    }
+    if (fs.existsSync(filePath)) continue;
+    writeTaskFile(
+      filePath,
+      {
+        id: generateTaskId(),
+        status: boardStatus,
+        assignee: "me",
+        priority: "medium",
+        project: scope.project,
+        created_at: new Date().toISOString(),
+      },
+      ""
+    );
+    const task = parseTaskFile(filePath);
+    if (task) {
+      recordHistory(boardConfig, "created", null, task);
+      tasks.push(task);
+    }
+    created++;
+  }
 
   for (const task of tasks) {
-    if (!boardTitles.has(task.title)) {
-      addToBoard(config.boardFile, task.title, task.frontmatter.status, task.frontmatter.due_date);
+    const id = task.frontmatter.id;
+    const fileStatus = task.frontmatter.status;
+    const column = cardColumns.get(task.title);
+    if (!column) {
+      addToBoard(
+        scope.boardFile,
+        config,
+        task.title,
+        fileStatus,
+        task.frontmatter.due_date
+      );
       added++;
+      nextState[id] = { title: task.title, status: fileStatus };
+      continue;
+    }
+
+    const boardStatus = columnStatus(config.workflow, column);
+    const fileColumn = statusColumn(config.workflow, fileStatus);
+    if (!boardStatus || column === fileColumn) {
+      nextState[id] = { title: task.title, status: fileStatus };
+      continue;
+    }
+
+    const last = state?.tasks[id];
+    let winner: "file" | "board" | "conflict";
+    if (!last) {
+      winner = options.preferBoard ? "board" : "file";
     } else {
-      const expectedCol = STATUS_TO_COLUMN[task.frontmatter.status] || "Backlog";
-      let currentCol: string | null = null;
-      const refreshedColumns = parseBoardFile(config.boardFile);
-      for (const col of refreshedColumns) {
-        if (col.items.some((i) => i.title === task.title)) {
-          currentCol = col.name;
-          break;
-        }
-      }
-      if (currentCol && currentCol !== expectedCol) {
-        moveOnBoard(config.boardFile, task.title, task.frontmatter.status, task.frontmatter.due_date);
-        moved++;
+      const lastColumn = statusColumn(config.workflow, last.status);
+      const fileChanged = fileColumn !== lastColumn;
+      const boardChanged = column !== lastColumn;
+      if (fileChanged && boardChanged) {
+        winner = options.preferBoard ? "board" : "conflict";
+      } else {
+        winner = boardChanged ? "board" : "file";
       }
     }
-  }
 
-  const finalColumns = parseBoardFile(config.boardFile);
-  for (const col of finalColumns) {
-    for (const item of col.items) {
-      if (!fileTitles.has(item.title)) {
-        removeFromBoard(config.boardFile, item.title);
-        removed++;
-      }
+    const transitionError =
+      winner === "board" && checkTransition(config.workflow, fileStatus, boardStatus);
+    if (transitionError) {
+      moveOnBoard(
+        scope.boardFile,
+        config,
+        task.title,
+        fileStatus,
+        task.frontmatter.due_date
+      );
+      conflicts.push({
+        id,
+        title: task.title,
+        fileStatus,
+        boardColumn: column,
+        project: scope.project,
+        reason: transitionError,
+      });
+      nextState[id] = { title: task.title, status: fileStatus };
+    } else if (winner === "board") {
+      applyBoardStatus(boardConfig, task, boardStatus, scope.boardFile);
+      statusUpdated++;
+      nextState[id] = { title: task.title, status: boardStatus };
+    } else if (winner === "file") {
+      moveOnBoard(
+        scope.boardFile,
+        config,
+        task.title,
+        fileStatus,
+        task.frontmatter.due_date
+      );
+      moved++;
+      nextState[id] = { title: task.title, status: fileStatus };
+    } else {
+      conflicts.push({
+        id,
+        title: task.title,
+        fileStatus,
+        boardColumn: column,
+        project: scope.project,
+      });
+      if (last) nextState[id] = last;
     }
   }
 
-  return { added, moved, removed };
+  const nextSyncState: SyncState = {
+    lastSync: new Date().toISOString(),
+    tasks: nextState,
+  };
+  fs.writeFileSync(
+    scope.syncStateFile,
+    JSON.stringify(nextSyncState, null, 2),
+    "utf-8"
+  );
+  writeConflictsNote(scope.conflictsFile, conflicts);
+
+  return { added, moved, removed, created, statusUpdated, conflicts };
 }
 
 export function sanitizeFilename(title: string): string {
@@ -341,6 +1328,8 @@ export function sanitizeFilename(title: string): string {
 }
 
 export function getLastSyncTime(config: VaultConfig): string {
+  const state = readSyncState(config.syncStateFile);
+  if (state?.lastSync) return state.lastSync;
   if (!fs.existsSync(config.boardFile)) return "never";
   const stat = fs.statSync(config.boardFile);
   return stat.mtime.toISOString();
@@ -11,9 +11,99 @@ import {
   removeFromBoard,
   moveOnBoard,
   renameOnBoard,
+  setBoardDate,
   sanitizeFilename,
   ensureVaultStructure,
+  generateTaskId,
+  batchBoardWrites,
+  restoreBoardCards,
+  listBoardFiles,
+  taskBoardFiles,
+  cardDate,
+  nextOccurrencePath,
+  spawnNextOccurrence,
+  listAllTasks,
+  openDependencies,
+  applyDependencyStatus,
+  unblockDependents,
+  isValidTag,
+  mergeTags,
+  normalizeTags,
+  parseInlineTags,
 } from "./vault-sync.js";
+import {
+  ARCHIVED_STATUS,
+  checkTransition,
+  isActiveStatus,
+  isClosedStatus,
+  checkStatus,
+  isKnownStatus,
+  statusColumn,
+} from "./workflow.js";
+import {
+  type WipViolation,
+  findWipViolations,
+  describeWipViolations,
+  summarizeWip,
+} from "./task-wip.js";
+import {
+  type HistoryEntry,
+  recordHistory,
+  readHistory,
+  historySize,
+  truncateHistory,
+  computeFlowMetrics,
+} from "./task-history.js";
+import {
+  type TrashEntry,
+  captureChange,
+  saveChange,
+  listTrash,
+  changedSince,
+  restoreChange,
+  discardChangesSince,
+  markRestored,
+} from "./task-trash.js";
+import { validateRecurrence, nextOccurrenceFor } from "./task-recurrence.js";
+import { findDependencyCycle, computeCriticalPath } from "./task-graph.js";
+import { type MatchCandidate, normalizeTitle, rankMatches } from "./task-match.js";
+import {
+  type TaskSort,
+  parseTaskQuery,
+  matchesTaskQuery,
+  sortTasks,
+  encodeCursor,
+  decodeCursor,
+} from "./task-query.js";
+import { refreshProjectNotes } from "./vault-projects.js";
+import {
+  type ResolvedDate,
+  instantToZoned,
+  isValidTimezone,
+  addDays,
+  localDate,
+  parseDueDate,
+  startOfWeek,
+  todayIn,
+} from "./task-dates.js";
+import { planAssigneeWeek } from "./task-planning.js";
+import {
+  beginTimer,
+  endTimer,
+  readTimers,
+  recordTimeEntry,
+  taskMinutes,
+  buildTimeReport,
+  writeTimeReportCsv,
+  snapshotTimers,
+  restoreTimers,
+} from "./task-time.js";
+import {
+  listTaskTemplates,
+  resolveTaskTemplate,
+  renderTemplate,
+  renderTemplateFields,
+} from "./task-templates.js";
 
 export interface ToolResult {
   content: Array<{ type: "text"; text: string }>;
@@ -28,8 +118,9 @@ function jsonResult(payload: Record<string, unknown>): ToolResult {
   };
 }
 
-function taskToRecord(task: ParsedTask): Record<string, unknown> {
+function taskToRecord(task: ParsedTask, config: VaultConfig): Record<string, unknown> {
   return {
+    id: task.frontmatter.id,
     title: task.title,
     filename: task.filename,
     status: task.frontmatter.status,
@@ -41,22 +132,269 @@ function taskToRecord(task: ParsedTask): Record<string, unknown> {
     follow_up_date: task.frontmatter.follow_up_date || null,
     created_at: task.frontmatter.created_at,
     completed_at: task.frontmatter.completed_at || null,
-    tags: task.frontmatter.tags || [],
+    archived_at: task.frontmatter.archived_at || null,
+    tags: task.tags,
+    recurrence: task.frontmatter.recurrence || null,
+    next_occurrence:
+      task.frontmatter.recurrence &&
+      !isClosedStatus(config.workflow, task.frontmatter.status)
+        ? nextOccurrenceFor(
+            task.frontmatter.recurrence,
+            task.frontmatter.due_date,
+            config.timezone
+          )
+        : null,
+    previous_occurrence: task.frontmatter.previous_occurrence || null,
+    depends_on: task.frontmatter.depends_on || [],
+    estimate: task.frontmatter.estimate ?? null,
+    subtasks: task.subtasks.map((s, index) => ({
+      index,
+      text: s.text,
+      done: s.done,
+      level: s.level,
+    })),
+    progress: {
+      done: task.subtasks.filter((s) => s.done).length,
+      total: task.subtasks.length,
+    },
     description: task.body || null,
   };
 }
 
-function findTaskByTitle(config: VaultConfig, taskId: string): ParsedTask | null {
+type TaskLookup = { task: ParsedTask } | { result: ToolResult };
+
+function resolveTask(config: VaultConfig, taskId: string): TaskLookup {
+  const tasks = listTaskFiles(config.tasksFolder);
+  const byId = tasks.find((t) => t.frontmatter.id === taskId.trim());
+  if (byId) return { task: byId };
   const sanitized = sanitizeFilename(taskId);
   const directPath = path.join(config.tasksFolder, sanitized + ".md");
   if (fs.existsSync(directPath)) {
-    return parseTaskFile(directPath);
+    const direct = parseTaskFile(directPath);
+    if (direct) return { task: direct };
   }
-  const tasks = listTaskFiles(config.tasksFolder);
-  const match = tasks.find(
-    (t) => t.title.toLowerCase() === taskId.toLowerCase()
+  const normalized = normalizeTitle(taskId);
+  const exact = tasks.filter((t) => normalizeTitle(t.title) === normalized);
+  if (exact.length === 1) return { task: exact[0] };
+
+  const archived = listTaskFiles(path.join(config.tasksFolder, "Archive"));
+  const archivedMatch =
+    archived.find((t) => t.frontmatter.id === taskId.trim()) ||
+    archived.find((t) => normalizeTitle(t.title) === normalized);
+  if (archivedMatch) {
+    return {
+      result: jsonResult({
+        error: `Task "${archivedMatch.title}" is archived. Restore it with unarchive_task before changing it.`,
+        archived: true,
+        id: archivedMatch.frontmatter.id,
+      }),
+    };
+  }
+
+  const candidates = rankMatches(taskId, [...tasks, ...archived], (t) => t.title);
+  if (candidates.length === 0) {
+    return { result: jsonResult({ error: `Task "${taskId}" not found` }) };
+  }
+  const note = candidates.some((c) => archived.includes(c.item))
+    ? " Archived candidates have to be restored with unarchive_task first."
+    : "";
+  return { result: ambiguousResult(taskId, candidates, archived, note) };
+}
+
+function ambiguousResult(
+  taskId: string,
+  candidates: MatchCandidate<ParsedTask>[],
+  archived: ParsedTask[],
+  note = ""
+): ToolResult {
+  return jsonResult({
+    ambiguous: true,
+    query: taskId,
+    message: `No exact match for "${taskId}". Ask the user which task they meant, then retry with its id.${note}`,
+    candidates: candidates.map((c) => ({
+      id: c.item.frontmatter.id,
+      title: c.item.title,
+      status: c.item.frontmatter.status,
+      project: c.item.frontmatter.project || null,
+      archived: archived.includes(c.item),
+      score: c.score,
+    })),
+  });
+}
+
+// Tasks archived before archived_at was recorded fall back to the file's
+// modification time.
+function listArchivedTaskFiles(config: VaultConfig): ParsedTask[] {
+  return listTaskFiles(path.join(config.tasksFolder, "Archive")).map((task) => {
+    if (!task.frontmatter.archived_at) {
+      task.frontmatter.archived_at = fs.statSync(task.filePath).mtime.toISOString();
+    }
+    return task;
+  });
+}
+
+function resolveArchivedTask(config: VaultConfig, taskId: string): TaskLookup {
+  const archived = listArchivedTaskFiles(config);
+  const byId = archived.find((t) => t.frontmatter.id === taskId.trim());
+  if (byId) return { task: byId };
+  const normalized = normalizeTitle(taskId);
+  const exact = archived.filter((t) => normalizeTitle(t.title) === normalized);
+  if (exact.length === 1) return { task: exact[0] };
+
+  const candidates = rankMatches(taskId, archived, (t) => t.title);
+  if (candidates.length === 0) {
+    return { result: jsonResult({ error: `Archived task "${taskId}" not found` }) };
+  }
+  return { result: ambiguousResult(taskId, candidates, archived) };
+}
+
+function resolveDependencies(
+  config: VaultConfig,
+  title: string,
+  dependsOn: string[]
+): { titles: string[] } | { error: string } {
+  const tasks = listAllTasks(config);
+  const titles: string[] = [];
+  for (const dep of dependsOn) {
+    const wanted = sanitizeFilename(dep.replace(/^\[\[|\]\]$/g, "")).toLowerCase();
+    const match =
+      tasks.find((t) => t.frontmatter.id === dep.trim()) ||
+      tasks.find((t) => t.title.toLowerCase() === wanted);
+    if (!match) {
+      return { error: `Dependency "${dep}" not found` };
+    }
+    if (match.title === title) {
+      return { error: `Task "${title}" cannot depend on itself` };
+    }
+    if (!titles.includes(match.title)) titles.push(match.title);
+  }
+
+  const graph = new Map(
+    tasks.map((t) => [t.title, t.frontmatter.depends_on || []])
   );
-  return match || null;
+  graph.set(title, titles);
+  const cycle = findDependencyCycle(graph, title);
+  if (cycle) {
+    return { error: `Dependency cycle detected: ${cycle.join(" → ")}` };
+  }
+  return { titles };
+}
+
+function dependentTasks(tasks: ParsedTask[], title: string): ParsedTask[] {
+  return tasks.filter((t) => t.frontmatter.depends_on?.includes(title));
+}
+
+function renameDependencies(
+  config: VaultConfig,
+  oldTitle: string,
+  newTitle: string
+): void {
+  for (const task of listAllTasks(config)) {
+    if (!task.frontmatter.depends_on?.includes(oldTitle)) continue;
+    const fm = {
+      ...task.frontmatter,
+      depends_on: task.frontmatter.depends_on.map((d) =>
+        d === oldTitle ? newTitle : d
+      ),
+    };
+    writeTaskFile(task.filePath, fm, task.body);
+    recordHistory(config, "updated", task, { ...task, frontmatter: fm });
+  }
+}
+
+function wipRejection(
+  config: VaultConfig,
+  violations: WipViolation[],
+  force?: boolean
+): ToolResult | null {
+  if (violations.length === 0 || force || config.workflow.wipLimits.mode === "warn") {
+    return null;
+  }
+  return jsonResult({
+    error: `WIP limit exceeded: ${describeWipViolations(violations)}. Pass force: true to override.`,
+    wip_limit_exceeded: true,
+    violations,
+  });
+}
+
+function resolveDueDate(
+  config: VaultConfig,
+  dueDate: string | undefined
+): { resolved?: ResolvedDate } | { error: string } {
+  if (!dueDate) return {};
+  const result = parseDueDate(dueDate, config.timezone);
+  return "error" in result ? result : { resolved: result };
+}
+
+function checkEstimate(estimate: number | null | undefined): string | null {
+  if (estimate === undefined || estimate === null) return null;
+  return Number.isFinite(estimate) && estimate >= 0
+    ? null
+    : "estimate must be a non-negative number";
+}
+
+// Fills the params the caller left out from the named template, or from the
+// default task template, and renders its body below any description.
+function applyTaskTemplate(
+  config: VaultConfig,
+  params: CreateTaskParams
+):
+  | {
+      item: CreateTaskParams;
+      body: string;
+      tags: string[];
+      fields: Record<string, unknown>;
+      template: string | null;
+    }
+  | { error: string } {
+  const found = resolveTaskTemplate(config, params.template);
+  if ("error" in found) return found;
+  const template = found.template;
+  if (!template) {
+    return { item: params, body: params.description || "", tags: [], fields: {}, template: null };
+  }
+
+  const defaults = template.defaults;
+  if (defaults.assignee && !["me", "assistant"].includes(defaults.assignee)) {
+    return { error: `Template "${template.name}" has an invalid assignee "${defaults.assignee}"` };
+  }
+  if (defaults.priority && !["low", "medium", "high"].includes(defaults.priority)) {
+    return { error: `Template "${template.name}" has an invalid priority "${defaults.priority}"` };
+  }
+  const item: CreateTaskParams = {
+    ...params,
+    status: params.status ?? defaults.status,
+    assignee: params.assignee ?? (defaults.assignee as CreateTaskParams["assignee"]),
+    priority: params.priority ?? (defaults.priority as CreateTaskParams["priority"]),
+    project: params.project ?? defaults.project,
+    dueDate: params.dueDate ?? defaults.dueDate,
+    blockedBy: params.blockedBy ?? defaults.blockedBy,
+    recurrence: params.recurrence ?? defaults.recurrence,
+    estimate: params.estimate ?? defaults.estimate,
+  };
+  const values = {
+    title: sanitizeFilename(params.title || ""),
+    date: todayIn(config.timezone),
+    project: item.project || "",
+  };
+  return {
+    item,
+    body: [params.description, renderTemplate(template.body, values)].filter(Boolean).join("\n\n"),
+    tags: defaults.tags || [],
+    fields: renderTemplateFields(template.fields, values),
+    template: template.name,
+  };
+}
+
+function checkTags(tags: string[] | undefined): string | null {
+  const invalid = normalizeTags(tags).find((tag) => !isValidTag(tag));
+  return invalid
+    ? `Invalid tag "${invalid}": use letters, numbers, _, - or /, with at least one non-digit`
+    : null;
+}
+
+function wipWarning(violations: WipViolation[]): Record<string, unknown> {
+  return violations.length > 0 ? { wip_limit_exceeded: true, violations } : {};
 }
 
 export function createTask(
@@ -71,9 +409,18 @@ export function createTask(
     dueDate?: string;
     blockedBy?: string;
     followUpDate?: string;
+    recurrence?: string;
+    dependsOn?: string[];
+    estimate?: number;
+    tags?: string[];
+    template?: string;
+    force?: boolean;
   }
 ): ToolResult {
   ensureVaultStructure(config);
+  const templated = applyTaskTemplate(config, params);
+  if ("error" in templated) return jsonResult({ error: templated.error });
+  params = templated.item;
   const title = sanitizeFilename(params.title);
   const filePath = path.join(config.tasksFolder, title + ".md");
 
@@ -81,59 +428,134 @@ export function createTask(
     return jsonResult({ error: `Task "${title}" already exists` });
   }
 
+  const statusError = params.status && checkStatus(config.workflow, params.status);
+  if (statusError) return jsonResult({ error: statusError });
+
+  const due = resolveDueDate(config, params.dueDate);
+  if ("error" in due) return jsonResult({ error: due.error });
+
+  if (params.recurrence) {
+    const recurrenceError = validateRecurrence(params.recurrence);
+    if (recurrenceError) return jsonResult({ error: recurrenceError });
+  }
+
+  const estimateError = checkEstimate(params.estimate);
+  if (estimateError) return jsonResult({ error: estimateError });
+
+  const tagError = checkTags(params.tags);
+  if (tagError) return jsonResult({ error: tagError });
+
+  let dependsOn: string[] = [];
+  if (params.dependsOn && params.dependsOn.length > 0) {
+    const resolved = resolveDependencies(config, title, params.dependsOn);
+    if ("error" in resolved) return jsonResult({ error: resolved.error });
+    dependsOn = resolved.titles;
+  }
+
   const frontmatter: TaskFrontmatter = {
-    status: params.status || "backlog",
+    id: generateTaskId(),
+    status: params.status || config.workflow.initialStatus,
     assignee: params.assignee || "me",
     priority: params.priority || "medium",
     project: params.project,
-    due_date: params.dueDate,
+    due_date: due.resolved?.value,
     blocked_by: params.blockedBy,
     follow_up_date: params.followUpDate,
     created_at: new Date().toISOString(),
-    tags: [],
+    tags: mergeTags(templated.tags, normalizeTags(params.tags)),
+    recurrence: params.recurrence,
+    depends_on: dependsOn,
+    estimate: params.estimate,
   };
+  applyDependencyStatus(frontmatter, listAllTasks(config), config.workflow, params.status);
 
-  writeTaskFile(filePath, frontmatter, params.description || "");
-  addToBoard(config.boardFile, title, frontmatter.status, params.dueDate);
+  const violations = findWipViolations(
+    listTaskFiles(config.tasksFolder),
+    config.workflow,
+    null,
+    frontmatter
+  );
+  const rejection = wipRejection(config, violations, params.force);
+  if (rejection) return rejection;
+
+  writeTaskFile(filePath, frontmatter, templated.body, filePath, templated.fields);
+  for (const board of taskBoardFiles(config, frontmatter.project)) {
+    addToBoard(board, config, title, frontmatter.status, frontmatter.due_date);
+  }
+  recordHistory(config, "created", null, {
+    title,
+    frontmatter,
+    body: templated.body,
+  });
+  refreshProjectNotes(config);
 
   const task = parseTaskFile(filePath);
   return jsonResult({
     created: true,
-    task: task ? taskToRecord(task) : { title },
+    task: task ? taskToRecord(task, config) : { title },
+    template: templated.template,
+    due_date_resolved: due.resolved,
+    waiting_on: openDependencies(frontmatter, listAllTasks(config), config.workflow),
+    ...wipWarning(violations),
   });
 }
 
-export function listTasks(
+export function listTemplates(config: VaultConfig): ToolResult {
+  const templates = listTaskTemplates(config).map((t) => ({
+    name: t.name,
+    path: t.path,
+    default: t.isDefault,
+    defaults: t.defaults,
+    fields: t.fields,
+    body: t.body,
+  }));
+  return jsonResult({
+    folder: path.relative(config.vaultPath, path.dirname(config.templateFile)),
+    count: templates.length,
+    templates,
+  });
+}
+
+interface TaskFilters {
+  assignee?: "me" | "assistant" | "all";
+  project?: string;
+  tags?: string[];
+  tagMode?: "any" | "all";
+  search?: string;
+  query?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+function filterTasks(
   config: VaultConfig,
-  params: {
-    assignee?: "me" | "assistant" | "all";
-    status?: string;
-    project?: string;
-    search?: string;
-    limit?: number;
-  }
-): ToolResult {
-  ensureVaultStructure(config);
-  let tasks = listTaskFiles(config.tasksFolder);
+  tasks: ParsedTask[],
+  params: TaskFilters,
+  defaultSort?: TaskSort
+): Record<string, unknown> {
+  const parsed = params.query ? parseTaskQuery(params.query) : null;
+  if (parsed && "error" in parsed) return { error: parsed.error };
+  const offset = params.cursor ? decodeCursor(params.cursor) : 0;
+  if (offset === null) return { error: "Invalid cursor" };
 
   if (params.assignee && params.assignee !== "all") {
     tasks = tasks.filter((t) => t.frontmatter.assignee === params.assignee);
   }
 
-  if (params.status) {
-    if (params.status === "active") {
-      tasks = tasks.filter((t) =>
-        ["working", "next", "blocked"].includes(t.frontmatter.status)
-      );
-    } else if (params.status !== "all") {
-      tasks = tasks.filter((t) => t.frontmatter.status === params.status);
-    }
-  }
-
   if (params.project) {
     tasks = tasks.filter((t) => t.frontmatter.project === params.project);
   }
 
+  const wantedTags = normalizeTags(params.tags).map((t) => t.toLowerCase());
+  if (wantedTags.length > 0) {
+    tasks = tasks.filter((t) => {
+      const tags = t.tags.map((tag) => tag.toLowerCase());
+      return params.tagMode === "all"
+        ? wantedTags.every((tag) => tags.includes(tag))
+        : wantedTags.some((tag) => tags.includes(tag));
+    });
+  }
+
   if (params.search) {
     const q = params.search.toLowerCase();
     tasks = tasks.filter(
@@ -143,19 +565,108 @@ export function listTasks(
     );
   }
 
-  tasks.sort(
-    (a, b) =>
-      new Date(b.frontmatter.created_at).getTime() -
-      new Date(a.frontmatter.created_at).getTime()
+  if (parsed) {
+    const today = todayIn(config.timezone);
+    tasks = tasks.filter((t) =>
+      matchesTaskQuery(t, parsed.query, config.workflow, config.timezone, today)
+    );
+  }
+
+  tasks = sortTasks(tasks, parsed?.query.sort || defaultSort);
+  const total = tasks.length;
+  const end = params.limit ? offset + params.limit : total;
+  tasks = tasks.slice(offset, end);
+
+  return {
+    count: tasks.length,
+    total,
+    tasks: tasks.map((t) => taskToRecord(t, config)),
+    next_cursor: end < total ? encodeCursor(end) : null,
+  };
+}
+
+export function listTasks(
+  config: VaultConfig,
+  params: TaskFilters & { status?: string }
+): ToolResult {
+  ensureVaultStructure(config);
+  let tasks = listTaskFiles(config.tasksFolder);
+
+  if (params.status) {
+    if (params.status === "active") {
+      tasks = tasks.filter((t) =>
+        isActiveStatus(config.workflow, t.frontmatter.status)
+      );
+    } else if (params.status !== "all") {
+      tasks = tasks.filter((t) => t.frontmatter.status === params.status);
+    }
+  }
+
+  const result = filterTasks(config, tasks, params);
+  if (result.error) return jsonResult(result);
+  return jsonResult({ ...result, workflow: config.workflow });
+}
+
+export function listArchivedTasks(
+  config: VaultConfig,
+  params: TaskFilters & { archivedAfter?: string; archivedBefore?: string }
+): ToolResult {
+  ensureVaultStructure(config);
+  for (const [field, value] of Object.entries({
+    archivedAfter: params.archivedAfter,
+    archivedBefore: params.archivedBefore,
+  })) {
+    if (value && isNaN(Date.parse(value))) {
+      return jsonResult({ error: `Invalid date "${value}" for ${field}` });
+    }
+  }
+
+  const archivedDay = (t: ParsedTask) => (t.frontmatter.archived_at || "").slice(0, 10);
+  let tasks = listArchivedTaskFiles(config);
+  if (params.archivedAfter) {
+    const after = params.archivedAfter.slice(0, 10);
+    tasks = tasks.filter((t) => archivedDay(t) >= after);
+  }
+  if (params.archivedBefore) {
+    const before = params.archivedBefore.slice(0, 10);
+    tasks = tasks.filter((t) => archivedDay(t) <= before);
+  }
+
+  return jsonResult(
+    filterTasks(config, tasks, params, { field: "archived", descending: false })
   );
+}
 
-  if (params.limit) {
-    tasks = tasks.slice(0, params.limit);
+export function listTags(
+  config: VaultConfig,
+  params: { includeArchived?: boolean }
+): ToolResult {
+  ensureVaultStructure(config);
+  const tasks = params.includeArchived ? listAllTasks(config) : listTaskFiles(config.tasksFolder);
+  const counts = new Map<string, { tag: string; count: number; open: number }>();
+  for (const task of tasks) {
+    const open = !isClosedStatus(config.workflow, task.frontmatter.status);
+    for (const tag of task.tags) {
+      const entry = counts.get(tag.toLowerCase()) || { tag, count: 0, open: 0 };
+      entry.count++;
+      if (open) entry.open++;
+      counts.set(tag.toLowerCase(), entry);
+    }
   }
+  const tags = Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+  return jsonResult({ count: tags.length, tags });
+}
 
-  return jsonResult({
-    count: tasks.length,
-    tasks: tasks.map(taskToRecord),
+export function searchTasks(
+  config: VaultConfig,
+  params: { query: string; limit?: number; cursor?: string }
+): ToolResult {
+  return listTasks(config, {
+    query: params.query,
+    limit: params.limit ?? 20,
+    cursor: params.cursor,
   });
 }
 
@@ -172,52 +683,167 @@ export function updateTask(
     dueDate?: string;
     blockedBy?: string;
     followUpDate?: string;
+    recurrence?: string;
+    dependsOn?: string[];
+    estimate?: number | null;
+    addTags?: string[];
+    removeTags?: string[];
+    force?: boolean;
   }
 ): ToolResult {
-  const task = findTaskByTitle(config, params.taskId);
-  if (!task) {
-    return jsonResult({ error: `Task "${params.taskId}" not found` });
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
+
+  if (params.status) {
+    const transitionError = checkTransition(
+      config.workflow,
+      task.frontmatter.status,
+      params.status
+    );
+    if (transitionError) return jsonResult({ error: transitionError });
   }
 
+  const due = resolveDueDate(config, params.dueDate);
+  if ("error" in due) return jsonResult({ error: due.error });
+
+  if (params.recurrence) {
+    const recurrenceError = validateRecurrence(params.recurrence);
+    if (recurrenceError) return jsonResult({ error: recurrenceError });
+  }
+
+  const estimateError = checkEstimate(params.estimate);
+  if (estimateError) return jsonResult({ error: estimateError });
+
+  const tagError = checkTags(params.addTags);
+  if (tagError) return jsonResult({ error: tagError });
+
   const fm = { ...task.frontmatter };
+
+  if (params.dependsOn !== undefined) {
+    const resolved = resolveDependencies(config, task.title, params.dependsOn);
+    if ("error" in resolved) return jsonResult({ error: resolved.error });
+    fm.depends_on = resolved.titles;
+  }
+
   let body = task.body;
 
   if (params.assignee) fm.assignee = params.assignee;
   if (params.status) fm.status = params.status;
   if (params.priority) fm.priority = params.priority;
   if (params.project !== undefined) fm.project = params.project || undefined;
-  if (params.dueDate !== undefined) fm.due_date = params.dueDate || undefined;
+  if (params.dueDate !== undefined) fm.due_date = due.resolved?.value;
   if (params.blockedBy !== undefined) fm.blocked_by = params.blockedBy || undefined;
   if (params.followUpDate !== undefined) fm.follow_up_date = params.followUpDate || undefined;
+  if (params.recurrence !== undefined) fm.recurrence = params.recurrence || undefined;
+  if (params.estimate !== undefined) fm.estimate = params.estimate ?? undefined;
   if (params.description !== undefined) body = params.description;
+  const removeTags = normalizeTags(params.removeTags).map((t) => t.toLowerCase());
+  if (params.addTags || params.removeTags) {
+    fm.tags = mergeTags(fm.tags || [], normalizeTags(params.addTags)).filter(
+      (t) => !removeTags.includes(t.toLowerCase())
+    );
+  }
+
+  const allTasks = listAllTasks(config);
+  applyDependencyStatus(fm, allTasks, config.workflow, params.status);
+
+  const violations = findWipViolations(
+    listTaskFiles(config.tasksFolder),
+    config.workflow,
+    task.frontmatter,
+    fm,
+    fm.id
+  );
+  const rejection = wipRejection(config, violations, params.force);
+  if (rejection) return rejection;
 
-  if (params.status === "done" && !fm.completed_at) {
+  if (params.status === config.workflow.doneStatus && !fm.completed_at) {
     fm.completed_at = new Date().toISOString();
   }
 
-  let currentPath = task.filePath;
   const oldTitle = task.title;
+  const title = (params.title && sanitizeFilename(params.title)) || oldTitle;
+  const finished =
+    isClosedStatus(config.workflow, fm.status) &&
+    !isClosedStatus(config.workflow, task.frontmatter.status);
+  const nextPath = finished
+    ? nextOccurrencePath(config, { ...task, title, frontmatter: fm })
+    : null;
+
+  const dependents = dependentTasks(allTasks, task.title);
+  const change = captureChange(
+    config,
+    "updated",
+    task,
+    [
+      task.filePath,
+      ...(title !== oldTitle ? [path.join(config.tasksFolder, title + ".md")] : []),
+      ...(nextPath ? [nextPath] : []),
+      ...dependents.map((t) => t.filePath),
+    ],
+    [
+      task.title,
+      ...(nextPath ? [path.basename(nextPath, ".md")] : []),
+      ...dependents.map((t) => t.title),
+    ]
+  );
 
-  if (params.title && params.title !== oldTitle) {
-    const newTitle = sanitizeFilename(params.title);
-    const newPath = path.join(config.tasksFolder, newTitle + ".md");
-    writeTaskFile(newPath, fm, body);
+  let currentPath = task.filePath;
+
+  if (title !== oldTitle) {
+    const newPath = path.join(config.tasksFolder, title + ".md");
+    if (fs.existsSync(newPath)) {
+      return jsonResult({ error: `Task "${title}" already exists` });
+    }
+    writeTaskFile(newPath, fm, body, currentPath);
     fs.unlinkSync(currentPath);
-    renameOnBoard(config.boardFile, oldTitle, newTitle);
+    renameDependencies(config, oldTitle, title);
     currentPath = newPath;
   } else {
     writeTaskFile(currentPath, fm, body);
   }
 
-  if (params.status && params.status !== task.frontmatter.status) {
-    const title = params.title ? sanitizeFilename(params.title) : oldTitle;
-    moveOnBoard(config.boardFile, title, fm.status, fm.due_date);
+  const oldBoards = taskBoardFiles(config, task.frontmatter.project);
+  const newBoards = taskBoardFiles(config, fm.project);
+  for (const board of oldBoards) {
+    if (!newBoards.includes(board)) removeFromBoard(board, oldTitle);
   }
+  for (const board of newBoards) {
+    if (!oldBoards.includes(board)) {
+      addToBoard(board, config, title, fm.status, fm.due_date);
+      continue;
+    }
+    if (title !== oldTitle) renameOnBoard(board, oldTitle, title);
+    if (fm.status !== task.frontmatter.status) {
+      moveOnBoard(board, config, title, fm.status, fm.due_date);
+    } else if (fm.due_date !== task.frontmatter.due_date) {
+      setBoardDate(board, config, title, fm.due_date);
+    }
+  }
+
+  recordHistory(config, "updated", task, { title, frontmatter: fm, body });
+
+  const unblocked = finished ? unblockDependents(config, title) : [];
+  const finishedTask = finished ? parseTaskFile(currentPath) : null;
+  const next = finishedTask ? spawnNextOccurrence(config, finishedTask) : null;
+  saveChange(config, change);
+  refreshProjectNotes(config);
 
   const updated = parseTaskFile(currentPath);
+  const timer = updated ? autoTimer(config, updated, task.frontmatter.status) : undefined;
   return jsonResult({
     updated: true,
-    task: updated ? taskToRecord(updated) : { title: params.taskId },
+    task: updated ? taskToRecord(updated, config) : { title: params.taskId },
+    due_date_resolved: due.resolved,
+    timer,
+    ...(finished && fm.recurrence
+      ? { next_occurrence: next ? taskToRecord(next, config) : null }
+      : {}),
+    tags_kept_inline: parseInlineTags(body).filter((t) => removeTags.includes(t.toLowerCase())),
+    waiting_on: openDependencies(fm, allTasks, config.workflow),
+    unblocked,
+    ...wipWarning(violations),
   });
 }
 
@@ -225,118 +851,963 @@ export function completeTask(
   config: VaultConfig,
   params: { taskId: string }
 ): ToolResult {
-  return updateTask(config, { taskId: params.taskId, status: "done" });
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
+  return updateTask(config, {
+    taskId: task.frontmatter.id,
+    status: config.workflow.doneStatus,
+  });
+}
+
+type CreateTaskParams = Parameters<typeof createTask>[1];
+type UpdateTaskParams = Parameters<typeof updateTask>[1];
+
+interface BulkItemResult {
+  index: number;
+  success: boolean;
+  task?: unknown;
+  error?: string;
+}
+
+function snapshotTaskFiles(config: VaultConfig): Map<string, string> {
+  const snapshot = new Map<string, string>();
+  for (const file of fs.readdirSync(config.tasksFolder)) {
+    if (!file.endsWith(".md") || file === "Board.md") continue;
+    const filePath = path.join(config.tasksFolder, file);
+    if (fs.statSync(filePath).isDirectory()) continue;
+    snapshot.set(filePath, fs.readFileSync(filePath, "utf-8"));
+  }
+  return snapshot;
+}
+
+function restoreTaskFiles(
+  config: VaultConfig,
+  snapshot: Map<string, string>
+): void {
+  for (const filePath of snapshotTaskFiles(config).keys()) {
+    if (!snapshot.has(filePath)) fs.unlinkSync(filePath);
+  }
+  for (const [filePath, content] of snapshot) {
+    if (!fs.existsSync(filePath) || fs.readFileSync(filePath, "utf-8") !== content) {
+      fs.writeFileSync(filePath, content, "utf-8");
+    }
+  }
+}
+
+function toolError(result: ToolResult): string | null {
+  if (result.details.error) return String(result.details.error);
+  if (result.details.ambiguous) return String(result.details.message);
+  return null;
+}
+
+function runBulk<T>(
+  config: VaultConfig,
+  items: T[],
+  atomic: boolean,
+  validate: (item: T, index: number) => string | null,
+  apply: (item: T) => ToolResult
+): ToolResult {
+  ensureVaultStructure(config);
+  const results: BulkItemResult[] = items.map((_, index) => ({
+    index,
+    success: false,
+  }));
+  const invalid = items
+    .map((item, index) => ({ index, error: validate(item, index) }))
+    .filter((v) => v.error);
+  for (const v of invalid) {
+    results[v.index].error = v.error as string;
+  }
+
+  let rolledBack = false;
+  if (atomic && invalid.length > 0) {
+    for (const r of results) {
+      if (!r.error) r.error = "Not applied: another item failed validation";
+    }
+  } else {
+    const snapshot = atomic ? snapshotTaskFiles(config) : null;
+    const startedAt = new Date().toISOString();
+    const historyStart = historySize(config);
+    const timers = atomic ? snapshotTimers(config) : null;
+    batchBoardWrites(listBoardFiles(config), () => {
+      for (const r of results) {
+        if (r.error) continue;
+        const result = apply(items[r.index]);
+        const error = toolError(result);
+        if (error) {
+          r.error = error;
+          if (snapshot) break;
+          continue;
+        }
+        r.success = true;
+        r.task = result.details.task;
+      }
+
+      if (snapshot && results.some((r) => r.error)) {
+        restoreTaskFiles(config, snapshot);
+        discardChangesSince(config, startedAt);
+        truncateHistory(config, historyStart);
+        if (timers) restoreTimers(config, timers);
+        refreshProjectNotes(config);
+        rolledBack = true;
+        for (const r of results) {
+          if (r.success) {
+            r.success = false;
+            r.task = undefined;
+            r.error = "Rolled back: another item failed";
+          } else if (!r.error) {
+            r.error = "Not applied: another item failed";
+          }
+        }
+        return false;
+      }
+      return true;
+    });
+  }
+
+  const succeeded = results.filter((r) => r.success).length;
+  return jsonResult({
+    summary: {
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      atomic,
+      rolled_back: rolledBack,
+    },
+    results,
+  });
+}
+
+export function bulkCreateTasks(
+  config: VaultConfig,
+  params: { items: CreateTaskParams[]; atomic?: boolean }
+): ToolResult {
+  const existing = listAllTasks(config);
+  const batchTitles = params.items.map((item) =>
+    sanitizeFilename(item.title || "").toLowerCase()
+  );
+
+  return runBulk(
+    config,
+    params.items,
+    !!params.atomic,
+    (raw, index) => {
+      const templated = applyTaskTemplate(config, raw);
+      if ("error" in templated) return templated.error;
+      const item = templated.item;
+      const title = sanitizeFilename(item.title || "");
+      if (!title) return "Task title is required";
+      if (fs.existsSync(path.join(config.tasksFolder, title + ".md"))) {
+        return `Task "${title}" already exists`;
+      }
+      if (batchTitles.indexOf(title.toLowerCase()) !== index) {
+        return `Duplicate title "${title}" in this batch`;
+      }
+      const statusError = item.status && checkStatus(config.workflow, item.status);
+      if (statusError) return statusError;
+      const due = resolveDueDate(config, item.dueDate);
+      if ("error" in due) return due.error;
+      if (item.recurrence) {
+        const recurrenceError = validateRecurrence(item.recurrence);
+        if (recurrenceError) return recurrenceError;
+      }
+      const estimateError = checkEstimate(item.estimate);
+      if (estimateError) return estimateError;
+      const tagError = checkTags(item.tags);
+      if (tagError) return tagError;
+      for (const dep of item.dependsOn || []) {
+        const wanted = sanitizeFilename(dep.replace(/^\[\[|\]\]$/g, "")).toLowerCase();
+        const known =
+          existing.some(
+            (t) => t.frontmatter.id === dep.trim() || t.title.toLowerCase() === wanted
+          ) || batchTitles.slice(0, index).includes(wanted);
+        if (!known) return `Dependency "${dep}" not found`;
+      }
+      return null;
+    },
+    (item) => createTask(config, item)
+  );
+}
+
+export function bulkUpdateTasks(
+  config: VaultConfig,
+  params: { items: UpdateTaskParams[]; atomic?: boolean }
+): ToolResult {
+  const targets: string[] = [];
+
+  return runBulk(
+    config,
+    params.items,
+    !!params.atomic,
+    (item) => {
+      const lookup = resolveTask(config, item.taskId || "");
+      if ("result" in lookup) return toolError(lookup.result);
+      const task = lookup.task;
+      if (targets.includes(task.frontmatter.id)) {
+        return `Task "${task.title}" appears more than once in this batch`;
+      }
+      targets.push(task.frontmatter.id);
+      if (item.status) {
+        const transitionError = checkTransition(
+          config.workflow,
+          task.frontmatter.status,
+          item.status
+        );
+        if (transitionError) return transitionError;
+      }
+      const due = resolveDueDate(config, item.dueDate);
+      if ("error" in due) return due.error;
+      if (item.recurrence) {
+        const recurrenceError = validateRecurrence(item.recurrence);
+        if (recurrenceError) return recurrenceError;
+      }
+      const estimateError = checkEstimate(item.estimate);
+      if (estimateError) return estimateError;
+      const tagError = checkTags(item.addTags);
+      if (tagError) return tagError;
+      if (item.title && sanitizeFilename(item.title) !== task.title) {
+        const newPath = path.join(
+          config.tasksFolder,
+          sanitizeFilename(item.title) + ".md"
+        );
+        if (fs.existsSync(newPath)) {
+          return `Task "${sanitizeFilename(item.title)}" already exists`;
+        }
+      }
+      return null;
+    },
+    (item) => updateTask(config, item)
+  );
+}
+
+export function addSubtask(
+  config: VaultConfig,
+  params: { taskId: string; text: string; parent?: number }
+): ToolResult {
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
+
+  const text = params.text.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return jsonResult({ error: "Subtask text is required" });
+  }
+
+  const lines = task.body ? task.body.split("\n") : [];
+  const subtasks = task.subtasks;
+
+  if (params.parent !== undefined) {
+    const parent = subtasks[params.parent];
+    if (!parent) {
+      return jsonResult({ error: `Subtask ${params.parent} not found` });
+    }
+    let insertAt = parent.line + 1;
+    for (const s of subtasks.slice(params.parent + 1)) {
+      if (s.level <= parent.level) break;
+      insertAt = s.line + 1;
+    }
+    const indent = (lines[parent.line].match(/^\s*/) || [""])[0];
+    lines.splice(insertAt, 0, `${indent}  - [ ] ${text}`);
+  } else if (subtasks.length > 0) {
+    const last = subtasks[subtasks.length - 1];
+    const root = subtasks.filter((s) => s.level === 0).pop() || last;
+    const indent = (lines[root.line].match(/^\s*/) || [""])[0];
+    lines.splice(last.line + 1, 0, `${indent}- [ ] ${text}`);
+  } else {
+    if (lines.length > 0) lines.push("");
+    lines.push(`- [ ] ${text}`);
+  }
+
+  writeTaskFile(task.filePath, task.frontmatter, lines.join("\n"));
+  recordHistory(config, "updated", task, { ...task, body: lines.join("\n") });
+
+  const updated = parseTaskFile(task.filePath);
+  return jsonResult({
+    added: true,
+    task: updated ? taskToRecord(updated, config) : { title: task.title },
+  });
+}
+
+export function toggleSubtask(
+  config: VaultConfig,
+  params: { taskId: string; index?: number; text?: string; done?: boolean }
+): ToolResult {
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
+
+  let subtask = params.index !== undefined ? task.subtasks[params.index] : undefined;
+  if (!subtask && params.text) {
+    const q = params.text.toLowerCase();
+    subtask =
+      task.subtasks.find((s) => s.text.toLowerCase() === q) ||
+      task.subtasks.find((s) => s.text.toLowerCase().includes(q));
+  }
+  if (!subtask) {
+    return jsonResult({
+      error: `Subtask ${params.index ?? `"${params.text}"`} not found in "${task.title}"`,
+    });
+  }
+
+  const done = params.done ?? !subtask.done;
+  const lines = task.body.split("\n");
+  lines[subtask.line] = lines[subtask.line].replace(
+    /\[[ xX]\]/,
+    done ? "[x]" : "[ ]"
+  );
+  writeTaskFile(task.filePath, task.frontmatter, lines.join("\n"));
+  recordHistory(config, "updated", task, { ...task, body: lines.join("\n") });
+
+  const updated = parseTaskFile(task.filePath);
+  return jsonResult({
+    toggled: true,
+    subtask: { text: subtask.text, done },
+    task: updated ? taskToRecord(updated, config) : { title: task.title },
+  });
 }
 
 export function archiveTask(
   config: VaultConfig,
   params: { taskId: string }
 ): ToolResult {
-  const task = findTaskByTitle(config, params.taskId);
-  if (!task) {
-    return jsonResult({ error: `Task "${params.taskId}" not found` });
-  }
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
 
   const archiveDir = path.join(config.tasksFolder, "Archive");
   if (!fs.existsSync(archiveDir)) {
     fs.mkdirSync(archiveDir, { recursive: true });
   }
 
-  const fm = { ...task.frontmatter, status: "archived" as const };
+  const fm = {
+    ...task.frontmatter,
+    status: ARCHIVED_STATUS,
+    archived_at: new Date().toISOString(),
+  };
   const archivePath = path.join(archiveDir, task.filename + ".md");
-  writeTaskFile(archivePath, fm, task.body);
+  const dependents = dependentTasks(listTaskFiles(config.tasksFolder), task.title);
+  const change = captureChange(
+    config,
+    "archived",
+    task,
+    [task.filePath, archivePath, ...dependents.map((t) => t.filePath)],
+    [task.title, ...dependents.map((t) => t.title)]
+  );
+  writeTaskFile(archivePath, fm, task.body, task.filePath);
   fs.unlinkSync(task.filePath);
-  removeFromBoard(config.boardFile, task.title);
+  for (const board of taskBoardFiles(config, task.frontmatter.project)) {
+    removeFromBoard(board, task.title);
+  }
+  recordHistory(config, "archived", task, { ...task, frontmatter: fm });
+  const unblocked = unblockDependents(config, task.title);
+  saveChange(config, change);
+  refreshProjectNotes(config);
 
-  return jsonResult({ archived: true, task: { title: task.title } });
+  return jsonResult({
+    archived: true,
+    task: { id: task.frontmatter.id, title: task.title },
+    unblocked,
+  });
 }
 
 export function deleteTask(
   config: VaultConfig,
   params: { taskId: string }
 ): ToolResult {
-  const task = findTaskByTitle(config, params.taskId);
-  if (!task) {
-    return jsonResult({ error: `Task "${params.taskId}" not found` });
-  }
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
 
+  const dependents = dependentTasks(listTaskFiles(config.tasksFolder), task.title);
+  const change = captureChange(
+    config,
+    "deleted",
+    task,
+    [task.filePath, ...dependents.map((t) => t.filePath)],
+    [task.title, ...dependents.map((t) => t.title)]
+  );
   fs.unlinkSync(task.filePath);
-  removeFromBoard(config.boardFile, task.title);
+  for (const board of taskBoardFiles(config, task.frontmatter.project)) {
+    removeFromBoard(board, task.title);
+  }
+  recordHistory(config, "deleted", task, null);
+  const unblocked = unblockDependents(config, task.title);
+  saveChange(config, change);
+  refreshProjectNotes(config);
 
-  return jsonResult({ deleted: true, task: { title: task.title } });
+  return jsonResult({
+    deleted: true,
+    task: { id: task.frontmatter.id, title: task.title },
+    unblocked,
+    restorable_until: change.expires_at,
+  });
 }
 
-export function listProjects(config: VaultConfig): ToolResult {
-  const tasks = listTaskFiles(config.tasksFolder);
-  const projectSet = new Set<string>();
+function parseTouchedTasks(config: VaultConfig, entry: TrashEntry): ParsedTask[] {
+  return Object.keys(entry.files).flatMap((relative) => {
+    const task = parseTaskFile(path.join(config.vaultPath, relative));
+    return task ? [task] : [];
+  });
+}
+
+function applyRestore(
+  config: VaultConfig,
+  entry: TrashEntry,
+  force?: boolean
+): ToolResult {
+  const changed = changedSince(config, entry);
+  if (changed.length > 0 && !force) {
+    return jsonResult({
+      error: `"${entry.title}" was changed again after this ${entry.action} change. Pass force: true to restore it anyway.`,
+      changed_files: changed,
+    });
+  }
+
+  const before = parseTouchedTasks(config, entry);
+  restoreChange(config, entry);
+  const after = parseTouchedTasks(config, entry);
+  for (const id of new Set([...before, ...after].map((t) => t.frontmatter.id))) {
+    recordHistory(
+      config,
+      "restored",
+      before.find((t) => t.frontmatter.id === id) || null,
+      after.find((t) => t.frontmatter.id === id) || null
+    );
+  }
+  refreshProjectNotes(config);
+
+  const restored = after.find((t) => t.frontmatter.id === entry.task_id);
+  return jsonResult({
+    restored: true,
+    undone: { action: entry.action, timestamp: entry.timestamp },
+    task: restored
+      ? taskToRecord(restored, config)
+      : { id: entry.task_id, title: entry.title },
+    files: Object.keys(entry.files),
+  });
+}
+
+export function undoLastChange(
+  config: VaultConfig,
+  params: { force?: boolean }
+): ToolResult {
+  ensureVaultStructure(config);
+  const entry = listTrash(config)
+    .reverse()
+    .find((e) => !e.restored_at);
+  if (!entry) {
+    return jsonResult({
+      error: `Nothing to undo. Changes are kept for ${config.trashRetentionDays} days.`,
+    });
+  }
+  return applyRestore(config, entry, params.force);
+}
+
+export function restoreTask(
+  config: VaultConfig,
+  params: { taskId: string; force?: boolean }
+): ToolResult {
+  ensureVaultStructure(config);
+  const wanted = normalizeTitle(params.taskId);
+  const matches = (id: string, title: string) =>
+    id === params.taskId.trim() || normalizeTitle(title) === wanted;
+
+  const entry = listTrash(config)
+    .reverse()
+    .find(
+      (e) =>
+        !e.restored_at &&
+        (e.action === "deleted" || e.action === "archived") &&
+        matches(e.task_id, e.title)
+    );
+  if (entry) return applyRestore(config, entry, params.force);
+
+  const archived = listArchivedTaskFiles(config).find((t) =>
+    matches(t.frontmatter.id, t.title)
+  );
+  if (!archived) {
+    return jsonResult({
+      error: `No deleted or archived task "${params.taskId}" found. Deleted tasks can be restored for ${config.trashRetentionDays} days.`,
+    });
+  }
+  return unarchiveTask(config, { taskId: archived.frontmatter.id, force: params.force });
+}
+
+function statusBeforeArchive(config: VaultConfig, task: ParsedTask): string {
+  const entry = readHistory(config)
+    .reverse()
+    .find((e) => e.task_id === task.frontmatter.id && e.action === "archived");
+  const status = entry?.changes.find((c) => c.field === "status")?.old;
+  return typeof status === "string" && isKnownStatus(config.workflow, status)
+    ? status
+    : config.workflow.doneStatus;
+}
+
+export function unarchiveTask(
+  config: VaultConfig,
+  params: { taskId: string; status?: TaskFrontmatter["status"]; force?: boolean }
+): ToolResult {
+  ensureVaultStructure(config);
+  const lookup = resolveArchivedTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const archived = lookup.task;
+
+  if (params.status) {
+    const statusError = checkStatus(config.workflow, params.status);
+    if (statusError) return jsonResult({ error: statusError });
+  }
+  const targetPath = path.join(config.tasksFolder, archived.filename + ".md");
+  if (fs.existsSync(targetPath)) {
+    return jsonResult({ error: `Task "${archived.title}" already exists` });
+  }
+
+  const fm: TaskFrontmatter = {
+    ...archived.frontmatter,
+    status: params.status || statusBeforeArchive(config, archived),
+    archived_at: undefined,
+  };
+  const allTasks = listAllTasks(config);
+  applyDependencyStatus(fm, allTasks, config.workflow, params.status);
+
+  const violations = findWipViolations(
+    listTaskFiles(config.tasksFolder),
+    config.workflow,
+    null,
+    fm,
+    fm.id
+  );
+  const rejection = wipRejection(config, violations, params.force);
+  if (rejection) return rejection;
+
+  writeTaskFile(targetPath, fm, archived.body, archived.filePath);
+  fs.unlinkSync(archived.filePath);
+
+  // Put the card back where it was when the archive snapshot is still in the
+  // trash and the task returns to the same column.
+  const entry = listTrash(config)
+    .reverse()
+    .find((e) => !e.restored_at && e.action === "archived" && e.task_id === fm.id);
+  for (const board of taskBoardFiles(config, fm.project)) {
+    const card = entry?.cards.find(
+      (c) =>
+        c.board === path.relative(config.vaultPath, board) &&
+        c.item.title === archived.title
+    );
+    if (card && card.column === statusColumn(config.workflow, fm.status)) {
+      restoreBoardCards(board, [archived.title], [
+        {
+          ...card,
+          item: {
+            ...card.item,
+            completed: isClosedStatus(config.workflow, fm.status),
+            ...cardDate(config, fm.due_date),
+          },
+        },
+      ]);
+    } else {
+      addToBoard(board, config, archived.title, fm.status, fm.due_date);
+    }
+  }
+  if (entry) markRestored(config, entry);
+  recordHistory(config, "restored", archived, { ...archived, frontmatter: fm });
+  refreshProjectNotes(config);
+
+  const restored = parseTaskFile(targetPath);
+  return jsonResult({
+    unarchived: true,
+    task: restored ? taskToRecord(restored, config) : { title: archived.title },
+    waiting_on: openDependencies(fm, allTasks, config.workflow),
+    ...wipWarning(violations),
+  });
+}
+
+export function autoArchiveTasks(config: VaultConfig, now: Date = new Date()): string[] {
+  if (!config.autoArchiveDays) return [];
+  const cutoff = now.getTime() - config.autoArchiveDays * 24 * 60 * 60 * 1000;
+  const archiveConfig: VaultConfig = { ...config, actor: { channel: "auto-archive" } };
+  const archived: string[] = [];
+  for (const task of listTaskFiles(config.tasksFolder)) {
+    const fm = task.frontmatter;
+    if (!config.workflow.closed.includes(fm.status) || !fm.completed_at) continue;
+    if (new Date(fm.completed_at).getTime() > cutoff) continue;
+    const result = archiveTask(archiveConfig, { taskId: fm.id });
+    if (result.details.archived) archived.push(task.title);
+  }
+  return archived;
+}
+
+export function getTaskGraph(
+  config: VaultConfig,
+  params: { project?: string }
+): ToolResult {
+  ensureVaultStructure(config);
+  const all = listAllTasks(config);
+  const byTitle = new Map(all.map((t) => [t.title, t]));
+  let tasks = listTaskFiles(config.tasksFolder);
+  if (params.project) {
+    tasks = tasks.filter((t) => t.frontmatter.project === params.project);
+  }
+
+  const included = new Set(tasks.map((t) => t.title));
   for (const task of tasks) {
-    if (task.frontmatter.project) {
-      projectSet.add(task.frontmatter.project);
+    for (const dep of task.frontmatter.depends_on || []) {
+      if (byTitle.has(dep)) included.add(dep);
     }
   }
 
-  const projectsDir = config.projectsFolder;
-  if (fs.existsSync(projectsDir)) {
-    const files = fs.readdirSync(projectsDir);
-    for (const file of files) {
-      if (file.endsWith(".md")) {
-        projectSet.add(path.basename(file, ".md"));
-      }
+  const nodes = Array.from(included).map((title) => {
+    const task = byTitle.get(title) as ParsedTask;
+    return {
+      id: task.frontmatter.id,
+      title,
+      status: task.frontmatter.status,
+      project: task.frontmatter.project || null,
+      depends_on: task.frontmatter.depends_on || [],
+      external: !!params.project && task.frontmatter.project !== params.project,
+    };
+  });
+
+  const edges = nodes.flatMap((node) =>
+    node.depends_on
+      .filter((dep) => included.has(dep))
+      .map((dep) => ({ from: dep, to: node.title }))
+  );
+
+  const criticalPath = computeCriticalPath(
+    nodes.map((n) => ({
+      title: n.title,
+      open: !isClosedStatus(config.workflow, n.status),
+      dependsOn: n.depends_on,
+    }))
+  );
+
+  return jsonResult({
+    project: params.project || null,
+    nodes,
+    edges,
+    critical_path: criticalPath,
+    critical_path_length: criticalPath.length,
+  });
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sum = values.reduce((a, b) => a + b, 0);
+  return Math.round((sum / values.length) * 10) / 10;
+}
+
+export function getTaskHistory(
+  config: VaultConfig,
+  params: { taskId?: string; limit?: number }
+): ToolResult {
+  ensureVaultStructure(config);
+  const entries = readHistory(config);
+  const limit = params.limit ?? 50;
+
+  if (!params.taskId) {
+    const byTask = new Map<string, HistoryEntry[]>();
+    for (const entry of entries) {
+      byTask.set(entry.task_id, [...(byTask.get(entry.task_id) || []), entry]);
     }
+    const completed = [...byTask.values()]
+      .map((taskEntries) => computeFlowMetrics(taskEntries, config.workflow))
+      .filter((m) => m.completed_at);
+    return jsonResult({
+      count: Math.min(limit, entries.length),
+      total: entries.length,
+      entries: entries.slice(-limit),
+      flow: {
+        completed_tasks: completed.length,
+        avg_lead_time_hours: average(
+          completed.flatMap((m) => (m.lead_time_hours === null ? [] : [m.lead_time_hours]))
+        ),
+        avg_cycle_time_hours: average(
+          completed.flatMap((m) => (m.cycle_time_hours === null ? [] : [m.cycle_time_hours]))
+        ),
+      },
+    });
+  }
+
+  let id: string;
+  let title: string;
+  let createdAt: string | undefined;
+  const lookup = resolveTask(config, params.taskId);
+  if ("task" in lookup) {
+    id = lookup.task.frontmatter.id;
+    title = lookup.task.title;
+    createdAt = lookup.task.frontmatter.created_at;
+  } else {
+    const wanted = params.taskId.trim().toLowerCase();
+    const match = [...entries]
+      .reverse()
+      .find((e) => e.task_id === params.taskId || e.title.toLowerCase() === wanted);
+    if (!match) return lookup.result;
+    id = match.task_id;
+    title = match.title;
   }
 
-  const projects = Array.from(projectSet).map((slug) => {
-    const taskCount = tasks.filter(
-      (t) => t.frontmatter.project === slug
-    ).length;
-    return { slug, taskCount };
+  const taskEntries = entries.filter((e) => e.task_id === id);
+  return jsonResult({
+    task: { id, title },
+    count: Math.min(limit, taskEntries.length),
+    total: taskEntries.length,
+    entries: taskEntries.slice(-limit),
+    flow: computeFlowMetrics(taskEntries, config.workflow, createdAt),
   });
+}
 
-  return jsonResult({ count: projects.length, projects });
+// With autoStartTimer on, moving a task into a started status starts its
+// timer and moving it out of one stops it.
+function autoTimer(
+  config: VaultConfig,
+  task: ParsedTask,
+  previousStatus: string
+): Record<string, unknown> | undefined {
+  if (!config.autoStartTimer) return undefined;
+  const started = config.workflow.startedStatuses;
+  const wasStarted = started.includes(previousStatus);
+  const isStarted = started.includes(task.frontmatter.status);
+  if (isStarted && !wasStarted) {
+    const timer = beginTimer(config, task);
+    return timer ? { started: timer } : undefined;
+  }
+  if (wasStarted && !isStarted) {
+    const entry = endTimer(config, task);
+    return entry ? { stopped: entry } : undefined;
+  }
+  return undefined;
 }
 
-export function createProject(
+function runningTimers(
+  config: VaultConfig
+): Array<{ task_id: string; title: string; started_at: string }> {
+  return Object.values(readTimers(config)).map((t) => ({
+    task_id: t.task_id,
+    title: t.title,
+    started_at: t.started_at,
+  }));
+}
+
+export function startTimer(
   config: VaultConfig,
-  params: { slug: string; displayName?: string; description?: string }
+  params: { taskId: string; note?: string }
 ): ToolResult {
-  if (!fs.existsSync(config.projectsFolder)) {
-    fs.mkdirSync(config.projectsFolder, { recursive: true });
+  ensureVaultStructure(config);
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
+  const timer = beginTimer(config, task, params.note);
+  if (!timer) {
+    const running = readTimers(config)[task.frontmatter.id];
+    return jsonResult({
+      error: `A timer is already running for "${task.title}" since ${running.started_at}`,
+    });
   }
+  return jsonResult({ started: true, timer, running: runningTimers(config) });
+}
 
-  const filePath = path.join(config.projectsFolder, params.slug + ".md");
-  if (fs.existsSync(filePath)) {
-    return jsonResult({ error: `Project "${params.slug}" already exists` });
-  }
-
-  const lines: string[] = [
-    "---",
-    `slug: ${params.slug}`,
-    `display_name: ${params.displayName || params.slug}`,
-    `status: active`,
-    `created_at: ${new Date().toISOString()}`,
-    "---",
-    "",
-    params.description || "",
-    "",
-  ];
-  fs.writeFileSync(filePath, lines.join("\n"), "utf-8");
+export function stopTimer(
+  config: VaultConfig,
+  params: { taskId?: string; note?: string }
+): ToolResult {
+  ensureVaultStructure(config);
+  let task: ParsedTask | undefined;
+  if (params.taskId) {
+    const lookup = resolveTask(config, params.taskId);
+    if ("result" in lookup) return lookup.result;
+    task = lookup.task;
+  } else {
+    const running = runningTimers(config);
+    if (running.length === 0) return jsonResult({ error: "No timer is running" });
+    if (running.length > 1) {
+      return jsonResult({
+        error: "Several timers are running. Pass taskId to choose one.",
+        running,
+      });
+    }
+    task = listAllTasks(config).find((t) => t.frontmatter.id === running[0].task_id);
+    if (!task) return jsonResult({ error: `Task "${running[0].title}" no longer exists` });
+  }
 
+  const entry = endTimer(config, task, params.note);
+  if (!entry) return jsonResult({ error: `No timer is running for "${task.title}"` });
   return jsonResult({
-    created: true,
-    project: {
-      slug: params.slug,
-      displayName: params.displayName || params.slug,
-    },
+    stopped: true,
+    entry,
+    task_total_minutes: taskMinutes(config, task.frontmatter.id),
+    running: runningTimers(config),
   });
 }
 
-export function getCurrentTime(params: { timezone?: string }): ToolResult {
-  const tz = params.timezone || "UTC";
+export function logTime(
+  config: VaultConfig,
+  params: { taskId: string; minutes: number; date?: string; note?: string }
+): ToolResult {
+  ensureVaultStructure(config);
+  const minutes = Math.round(params.minutes);
+  if (!Number.isFinite(minutes) || minutes < 1) {
+    return jsonResult({ error: "minutes must be at least 1" });
+  }
+  const day = resolveDueDate(config, params.date);
+  if ("error" in day) return jsonResult({ error: day.error });
+  const lookup = resolveTask(config, params.taskId);
+  if ("result" in lookup) return lookup.result;
+  const task = lookup.task;
+
+  const entry = recordTimeEntry(config, task, {
+    date: day.resolved
+      ? localDate(day.resolved.value, config.timezone)
+      : todayIn(config.timezone),
+    minutes,
+    started_at: null,
+    ended_at: null,
+    note: params.note || null,
+    source: "manual",
+  });
+  return jsonResult({
+    logged: true,
+    entry,
+    task_total_minutes: taskMinutes(config, task.frontmatter.id),
+  });
+}
+
+export function timeReport(
+  config: VaultConfig,
+  params: {
+    from?: string;
+    to?: string;
+    project?: string;
+    assignee?: string;
+    tag?: string;
+    csv?: boolean;
+    csvPath?: string;
+  }
+): ToolResult {
+  ensureVaultStructure(config);
+  const range: { from?: string; to?: string } = {};
+  for (const field of ["from", "to"] as const) {
+    const day = resolveDueDate(config, params[field]);
+    if ("error" in day) return jsonResult({ error: `Invalid ${field}: ${day.error}` });
+    if (day.resolved) range[field] = localDate(day.resolved.value, config.timezone);
+  }
+  if (range.from && range.to && range.from > range.to) {
+    return jsonResult({ error: `from (${range.from}) is after to (${range.to})` });
+  }
+
+  const filters = {
+    ...range,
+    project: params.project,
+    assignee: params.assignee,
+    tag: params.tag,
+  };
+  const { entries, report } = buildTimeReport(config, listAllTasks(config), filters);
+  let csvFile: string | undefined;
+  if (params.csv || params.csvPath) {
+    try {
+      csvFile = writeTimeReportCsv(config, entries, filters, params.csvPath);
+    } catch (e) {
+      return jsonResult({ error: e instanceof Error ? e.message : "Could not write CSV" });
+    }
+  }
+  return jsonResult({ ...report, csv_file: csvFile });
+}
+
+export function getWipStatus(config: VaultConfig): ToolResult {
+  ensureVaultStructure(config);
+  return jsonResult(summarizeWip(listTaskFiles(config.tasksFolder), config.workflow));
+}
+
+export function planWeek(
+  config: VaultConfig,
+  params: {
+    assignee?: "me" | "assistant";
+    capacity?: number;
+    weekOf?: string;
+    accept?: string[];
+  }
+): ToolResult {
+  ensureVaultStructure(config);
+  const target = config.workflow.unblockedStatus;
+
+  if (params.accept) {
+    const tasks = listTaskFiles(config.tasksFolder);
+    const items = params.accept.filter((taskId) => {
+      const task = tasks.find((t) => t.frontmatter.id === taskId.trim());
+      return !task || task.frontmatter.status !== target;
+    });
+    if (items.length === 0) {
+      return jsonResult({ accepted: true, moved_to: target, results: [] });
+    }
+    const result = bulkUpdateTasks(config, {
+      items: items.map((taskId) => ({ taskId, status: target })),
+    });
+    return jsonResult({ accepted: true, moved_to: target, ...result.details });
+  }
+
+  if (params.capacity !== undefined && !(params.capacity >= 0)) {
+    return jsonResult({ error: "capacity must be a non-negative number" });
+  }
+  const week = resolveDueDate(config, params.weekOf);
+  if ("error" in week) return jsonResult({ error: week.error });
+  const weekStart = startOfWeek(
+    week.resolved ? localDate(week.resolved.value, config.timezone) : todayIn(config.timezone)
+  );
+  const weekEnd = addDays(weekStart, 6);
+
+  const capacities: Record<string, number> = params.assignee
+    ? { [params.assignee]: params.capacity ?? config.planning.capacity[params.assignee] }
+    : Object.fromEntries(
+        Object.entries(config.planning.capacity).map(([assignee, hours]) => [
+          assignee,
+          params.capacity ?? hours,
+        ])
+      );
+  const missing = Object.entries(capacities).filter(([, c]) => c === undefined);
+  if (Object.keys(capacities).length === 0 || missing.length > 0) {
+    return jsonResult({
+      error:
+        "No weekly capacity configured. Set planning.capacity in the core plugin's config or pass capacity.",
+    });
+  }
+
+  const tasks = listTaskFiles(config.tasksFolder);
+  const plans = Object.entries(capacities).map(([assignee, capacity]) =>
+    planAssigneeWeek(tasks, {
+      assignee,
+      capacity,
+      workflow: config.workflow,
+      planning: config.planning,
+      weekEnd,
+      timeZone: config.timezone,
+    })
+  );
+  return jsonResult({
+    week_start: weekStart,
+    week_end: weekEnd,
+    unit: config.planning.unit,
+    moves_to: target,
+    plans,
+    accept: plans.flatMap((p) => p.plan.map((t) => t.id)),
+    message: `Show the plan to the user. If they accept it, call plan_week with accept set to the ids they want moved to ${target}.`,
+  });
+}
+
+export function getCurrentTime(
+  config: VaultConfig,
+  params: { timezone?: string }
+): ToolResult {
+  const tz = params.timezone || config.timezone;
+  if (!isValidTimezone(tz)) {
+    return jsonResult({ error: `Invalid timezone "${tz}"` });
+  }
   const now = new Date();
   const formatted = now.toLocaleString("en-US", { timeZone: tz });
   return jsonResult({
     timezone: tz,
     iso: now.toISOString(),
+    local: instantToZoned(now, tz),
+    date: todayIn(tz, now),
     formatted,
     unix: Math.floor(now.getTime() / 1000),
   });
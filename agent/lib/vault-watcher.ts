@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  type VaultConfig,
+  type SyncConflict,
+  ensureVaultStructure,
+  listTaskFiles,
+  listBoardFiles,
+  syncBoardWithFiles,
+  getLastSyncTime,
+} from "./vault-sync.js";
+import { autoArchiveTasks } from "./vault-tasks.js";
+import { refreshProjectNotes } from "./vault-projects.js";
+import { updateDailyNote } from "./daily-notes.js";
+
+export interface SyncStatusEvent {
+  type: "sync_status";
+  lastSync: string;
+  tasksCount: number;
+  boardSynced: boolean;
+  trigger: "board" | "tasks";
+  added: number;
+  moved: number;
+  removed: number;
+  created: number;
+  statusUpdated: number;
+  archived: number;
+  conflicts: SyncConflict[];
+  error?: string;
+}
+
+export function watchVault(
+  config: VaultConfig,
+  options: {
+    debounceMs?: number;
+    onEvent: (event: SyncStatusEvent) => void;
+    onWarning?: (message: string) => void;
+  }
+): () => void {
+  ensureVaultStructure(config);
+  const debounceMs = options.debounceMs ?? 500;
+  const boardName = path.basename(config.boardFile);
+  const boardInTasks = path.dirname(config.boardFile) === config.tasksFolder;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let boardChanged = false;
+
+  // What the watched files looked like after the last sync. The sync's own
+  // writes arrive as watch events once it has returned; an event for a file
+  // that still matches is one of those and is skipped, anything else is an
+  // edit made since and gets synced.
+  let synced = new Map<string, string>();
+
+  function fileState(filePath: string): string | null {
+    try {
+      const stat = fs.statSync(filePath);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return null;
+    }
+  }
+
+  function snapshot(): Map<string, string> {
+    const files = fs
+      .readdirSync(config.tasksFolder)
+      .filter((file) => file.endsWith(".md"))
+      .map((file) => path.join(config.tasksFolder, file));
+    const states = new Map<string, string>();
+    for (const filePath of new Set([...files, ...listBoardFiles(config)])) {
+      const state = fileState(filePath);
+      if (state) states.set(filePath, state);
+    }
+    return states;
+  }
+
+  function runSync() {
+    timer = null;
+    const trigger = boardChanged ? "board" : "tasks";
+    boardChanged = false;
+    try {
+      const archived = autoArchiveTasks(config).length;
+      const result = syncBoardWithFiles(config);
+      refreshProjectNotes(config);
+      updateDailyNote(config);
+      options.onEvent({
+        type: "sync_status",
+        lastSync: getLastSyncTime(config),
+        tasksCount: listTaskFiles(config.tasksFolder).length,
+        boardSynced: result.conflicts.length === 0,
+        trigger,
+        archived,
+        ...result,
+      });
+    } catch (e) {
+      options.onEvent({
+        type: "sync_status",
+        lastSync: getLastSyncTime(config),
+        tasksCount: 0,
+        boardSynced: false,
+        trigger,
+        added: 0,
+        moved: 0,
+        removed: 0,
+        created: 0,
+        statusUpdated: 0,
+        archived: 0,
+        conflicts: [],
+        error: e instanceof Error ? e.message : "Unknown error",
+      });
+    } finally {
+      synced = snapshot();
+    }
+  }
+
+  function schedule(filePath: string, isBoard: boolean) {
+    if (fileState(filePath) === (synced.get(filePath) ?? null)) return;
+    if (isBoard) boardChanged = true;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(runSync, debounceMs);
+  }
+
+  synced = snapshot();
+  const watchers: fs.FSWatcher[] = [
+    fs.watch(config.tasksFolder, (_event, filename) => {
+      const name = filename?.toString();
+      if (!name || !name.endsWith(".md")) return;
+      schedule(path.join(config.tasksFolder, name), boardInTasks && name === boardName);
+    }),
+  ];
+  if (!boardInTasks) {
+    watchers.push(fs.watch(config.boardFile, () => schedule(config.boardFile, true)));
+  }
+  try {
+    watchers.push(
+      fs.watch(config.projectsFolder, { recursive: true }, (_event, filename) => {
+        const name = filename?.toString();
+        if (!name || path.basename(name) !== "Board.md" || path.dirname(name) === ".") return;
+        schedule(path.join(config.projectsFolder, name), true);
+      })
+    );
+  } catch (e) {
+    // Recursive watching isn't available on every platform. Fall back to the
+    // boards of the projects that exist now; boards added later are still
+    // synced whenever another change triggers a sync.
+    options.onWarning?.(
+      `Recursive watch of ${config.projectsFolder} failed (${
+        e instanceof Error ? e.message : e
+      }); watching existing project boards only`
+    );
+    for (const board of listBoardFiles(config)) {
+      if (board === config.boardFile) continue;
+      watchers.push(
+        fs.watch(path.dirname(board), (_event, filename) => {
+          if (filename?.toString() === "Board.md") schedule(board, true);
+        })
+      );
+    }
+  }
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
@@ -0,0 +1,229 @@
+export interface WorkflowStatus {
+  id: string;
+  column: string;
+}
+
+export interface WipLimits {
+  statuses: Record<string, number>;
+  assignees: Record<string, number>;
+  assigneeStatuses: string[];
+  mode: "reject" | "warn";
+}
+
+export interface WorkflowConfig {
+  statuses: WorkflowStatus[];
+  active: string[];
+  closed: string[];
+  startedStatuses: string[];
+  transitions: Record<string, string[]> | null;
+  initialStatus: string;
+  doneStatus: string;
+  blockedStatus: string | null;
+  unblockedStatus: string;
+  wipLimits: WipLimits;
+}
+
+export const ARCHIVED_STATUS = "archived";
+
+const STATUS_ID = /^[a-z0-9][a-z0-9_-]*$/;
+
+const DEFAULT_STATUSES: WorkflowStatus[] = [
+  { id: "backlog", column: "Backlog" },
+  { id: "next", column: "Next" },
+  { id: "working", column: "Working" },
+  { id: "blocked", column: "Blocked" },
+  { id: "done", column: "Done" },
+];
+
+function columnName(id: string): string {
+  return id
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+function limitMap(value: unknown, field: string): Record<string, number> | undefined {
+  if (value === undefined) return undefined;
+  const valid =
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((n) => Number.isInteger(n) && n >= 0);
+  if (!valid) {
+    throw new Error(`Invalid workflow config: "${field}" must map names to non-negative integers`);
+  }
+  return { ...(value as Record<string, number>) };
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new Error(`Invalid workflow config: "${field}" must be an array of status ids`);
+  }
+  return value as string[];
+}
+
+export function resolveWorkflow(raw: unknown = {}): WorkflowConfig {
+  const input = (raw || {}) as Record<string, unknown>;
+  const fail = (message: string): never => {
+    throw new Error(`Invalid workflow config: ${message}`);
+  };
+
+  let statuses = DEFAULT_STATUSES;
+  if (input.statuses !== undefined) {
+    if (!Array.isArray(input.statuses) || input.statuses.length === 0) {
+      fail('"statuses" must be a non-empty array');
+    }
+    statuses = (input.statuses as unknown[]).map((entry) => {
+      const s = (typeof entry === "string" ? { id: entry } : entry) as Partial<WorkflowStatus>;
+      if (!s || typeof s.id !== "string" || !STATUS_ID.test(s.id)) {
+        return fail(`status ids must be lowercase words like "waiting-on-customer"`);
+      }
+      return { id: s.id, column: s.column?.trim() || columnName(s.id) };
+    });
+  }
+
+  const ids = statuses.map((s) => s.id);
+  const known = (id: string, field: string) => {
+    if (!ids.includes(id)) fail(`"${field}" refers to unknown status "${id}"`);
+  };
+  if (new Set(ids).size !== ids.length) fail("status ids must be unique");
+  if (new Set(statuses.map((s) => s.column)).size !== ids.length) {
+    fail("column names must be unique");
+  }
+  if (ids.includes(ARCHIVED_STATUS)) {
+    fail(`"${ARCHIVED_STATUS}" is reserved for archived tasks`);
+  }
+
+  const pick = (field: string, fallback: string | null): string | null => {
+    const value = input[field];
+    if (value === undefined) return fallback;
+    if (typeof value !== "string") return fail(`"${field}" must be a status id`);
+    known(value, field);
+    return value;
+  };
+  const initialStatus = pick("initialStatus", ids[0]) as string;
+  const doneStatus = pick(
+    "doneStatus",
+    ids.includes("done") ? "done" : ids[ids.length - 1]
+  ) as string;
+  const blockedStatus = pick(
+    "blockedStatus",
+    ids.includes("blocked") ? "blocked" : null
+  );
+  const unblockedStatus = pick(
+    "unblockedStatus",
+    ids.includes("next") ? "next" : initialStatus
+  ) as string;
+
+  const closed = stringList(input.closed, "closed") || [doneStatus];
+  closed.forEach((id) => known(id, "closed"));
+  if (!closed.includes(doneStatus)) closed.push(doneStatus);
+
+  const active =
+    stringList(input.active, "active") ||
+    ids.filter((id) => id !== initialStatus && !closed.includes(id));
+  active.forEach((id) => known(id, "active"));
+  if (active.some((id) => closed.includes(id))) {
+    fail("a status cannot be both active and closed");
+  }
+
+  const startedStatuses =
+    stringList(input.startedStatuses, "startedStatuses") ||
+    (ids.includes("working") ? ["working"] : [...active]);
+  startedStatuses.forEach((id) => known(id, "startedStatuses"));
+
+  let transitions: Record<string, string[]> | null = null;
+  if (input.transitions !== undefined) {
+    if (typeof input.transitions !== "object" || Array.isArray(input.transitions)) {
+      fail('"transitions" must map a status id to the statuses it can move to');
+    }
+    transitions = {};
+    for (const [from, to] of Object.entries(input.transitions as object)) {
+      known(from, "transitions");
+      const targets = stringList(to, `transitions.${from}`) as string[];
+      targets.forEach((id) => known(id, `transitions.${from}`));
+      transitions[from] = targets;
+    }
+  }
+
+  const wipInput = (input.wipLimits || {}) as Record<string, unknown>;
+  const statusLimits =
+    limitMap(wipInput.statuses, "wipLimits.statuses") ||
+    (ids.includes("working") ? { working: 5 } : {});
+  Object.keys(statusLimits).forEach((id) => known(id, "wipLimits.statuses"));
+  const assigneeStatuses =
+    stringList(wipInput.assigneeStatuses, "wipLimits.assigneeStatuses") ||
+    Object.keys(statusLimits);
+  assigneeStatuses.forEach((id) => known(id, "wipLimits.assigneeStatuses"));
+  const mode = wipInput.mode ?? "warn";
+  if (mode !== "reject" && mode !== "warn") {
+    fail('"wipLimits.mode" must be "reject" or "warn"');
+  }
+  const wipLimits: WipLimits = {
+    statuses: statusLimits,
+    assignees: limitMap(wipInput.assignees, "wipLimits.assignees") || {},
+    assigneeStatuses,
+    mode: mode as WipLimits["mode"],
+  };
+
+  return {
+    statuses,
+    active,
+    closed,
+    startedStatuses,
+    transitions,
+    initialStatus,
+    doneStatus,
+    blockedStatus,
+    unblockedStatus,
+    wipLimits,
+  };
+}
+
+export const DEFAULT_WORKFLOW = resolveWorkflow();
+
+export function isKnownStatus(workflow: WorkflowConfig, status: string): boolean {
+  return workflow.statuses.some((s) => s.id === status);
+}
+
+export function isClosedStatus(workflow: WorkflowConfig, status: string): boolean {
+  return status === ARCHIVED_STATUS || workflow.closed.includes(status);
+}
+
+export function isActiveStatus(workflow: WorkflowConfig, status: string): boolean {
+  return workflow.active.includes(status);
+}
+
+export function statusColumn(workflow: WorkflowConfig, status: string): string {
+  const id = status === ARCHIVED_STATUS ? workflow.doneStatus : status;
+  const match =
+    workflow.statuses.find((s) => s.id === id) ||
+    workflow.statuses.find((s) => s.id === workflow.initialStatus);
+  return match ? match.column : columnName(status);
+}
+
+export function columnStatus(
+  workflow: WorkflowConfig,
+  column: string
+): string | undefined {
+  return workflow.statuses.find((s) => s.column === column)?.id;
+}
+
+export function checkStatus(workflow: WorkflowConfig, status: string): string | null {
+  if (isKnownStatus(workflow, status)) return null;
+  return `Unknown status "${status}". Use one of: ${workflow.statuses.map((s) => s.id).join(", ")}`;
+}
+
+export function checkTransition(
+  workflow: WorkflowConfig,
+  from: string,
+  to: string
+): string | null {
+  const statusError = checkStatus(workflow, to);
+  if (statusError) return statusError;
+  const allowed = workflow.transitions?.[from];
+  if (from === to || !allowed || allowed.includes(to)) return null;
+  return `Cannot move a task from "${from}" to "${to}". Allowed: ${allowed.join(", ") || "none"}`;
+}
@@ -1,3 +1,4 @@
+import * as path from "path";
 import { Type } from "@sinclair/typebox";
 import {
   type VaultConfig,
@@ -5,17 +6,56 @@ import {
   syncBoardWithFiles,
   getLastSyncTime,
 } from "../../lib/vault-sync.js";
+import { type WorkflowConfig, resolveWorkflow } from "../../lib/workflow.js";
+import { type PlanningConfig, resolvePlanning } from "../../lib/task-planning.js";
+import { isValidTimezone } from "../../lib/task-dates.js";
+import {
+  type DailyNotesConfig,
+  type TriageSummary,
+  resolveDailyNotes,
+  updateDailyNote,
+  logToDailyNote,
+} from "../../lib/daily-notes.js";
 import {
   createTask,
+  listTemplates,
   listTasks,
+  listTags,
+  searchTasks,
   updateTask,
+  bulkCreateTasks,
+  bulkUpdateTasks,
   completeTask,
+  addSubtask,
+  toggleSubtask,
   archiveTask,
   deleteTask,
-  listProjects,
-  createProject,
+  undoLastChange,
+  restoreTask,
+  listArchivedTasks,
+  unarchiveTask,
+  autoArchiveTasks,
+  getTaskGraph,
+  getWipStatus,
+  getTaskHistory,
   getCurrentTime,
+  startTimer,
+  stopTimer,
+  logTime,
+  timeReport,
+  planWeek,
 } from "../../lib/vault-tasks.js";
+import {
+  PROJECT_STATUSES,
+  refreshProjectNotes,
+  listProjects,
+  getProject,
+  createProject,
+  updateProject,
+  archiveProject,
+  renameProject,
+  mergeProjects,
+} from "../../lib/vault-projects.js";
 import {
   runEmailTriage,
   listEmails,
@@ -28,6 +68,7 @@ import {
   refreshFollowUps,
   getFollowUpSummary,
 } from "../../lib/follow-up-tracker.js";
+import { watchVault } from "../../lib/vault-watcher.js";
 
 interface PluginApi {
   registerTool: (
@@ -42,16 +83,94 @@ interface PluginApi {
     },
     options?: { optional?: boolean }
   ) => void;
+  registerService?: (service: {
+    id: string;
+    start: () => void | Promise<void>;
+    stop?: () => void | Promise<void>;
+  }) => void;
+  broadcast?: (event: Record<string, unknown>) => void;
+  logger?: {
+    warn: (message: string) => void;
+    error: (message: string) => void;
+  };
+  pluginConfig?: Record<string, unknown>;
+  config?: Record<string, unknown>;
+}
+
+interface VaultSettings {
+  workflow: WorkflowConfig;
+  planning: PlanningConfig;
+  dailyNotes: DailyNotesConfig;
+  trashRetentionDays?: number;
+  autoArchiveDays?: number;
+  globalBoard?: VaultConfig["globalBoard"];
+  timezone?: string;
+  autoStartTimer?: boolean;
+}
+
+function resolveDays(value: unknown, field: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid ${field}: must be a whole number of days (1 or more)`);
+  }
+  return value;
+}
+
+function resolveGlobalBoard(value: unknown): VaultConfig["globalBoard"] | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "all" && value !== "unprojected") {
+    throw new Error('Invalid globalBoard: must be "all" or "unprojected"');
+  }
+  return value;
+}
+
+// The user's timezone is the heartbeat's activeHours.timezone in
+// openclaw.json; the plugin's own timezone setting only overrides it.
+function heartbeatTimezone(config: Record<string, unknown> | undefined): unknown {
+  const agents = config?.agents as
+    | { defaults?: { heartbeat?: { activeHours?: { timezone?: unknown } } } }
+    | undefined;
+  return agents?.defaults?.heartbeat?.activeHours?.timezone;
+}
+
+function resolveTimezone(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !isValidTimezone(value)) {
+    throw new Error(`Invalid timezone: "${value}" is not an IANA timezone like "America/New_York"`);
+  }
+  return value;
 }
 
-function getVaultConfig(): VaultConfig {
+function resolveFlag(value: unknown, field: string): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") {
+    throw new Error(`Invalid ${field}: must be true or false`);
+  }
+  return value;
+}
+
+function getVaultConfig(settings: VaultSettings, toolCallId?: string): VaultConfig {
   const vaultPath = process.env.VAULT_PATH;
   if (!vaultPath) {
     throw new Error(
       "VAULT_PATH environment variable is required. Set it to your Obsidian vault path."
     );
   }
-  return getDefaultVaultConfig(vaultPath);
+  return {
+    ...getDefaultVaultConfig(vaultPath, settings.workflow),
+    planning: settings.planning,
+    dailyNotesFolder: path.join(vaultPath, settings.dailyNotes.folder),
+    dailyTemplateFile: path.join(vaultPath, settings.dailyNotes.template),
+    autoDailyNote: settings.dailyNotes.autoCreate,
+    ...(settings.trashRetentionDays
+      ? { trashRetentionDays: settings.trashRetentionDays }
+      : {}),
+    autoArchiveDays: settings.autoArchiveDays ?? null,
+    globalBoard: settings.globalBoard ?? "all",
+    timezone: settings.timezone ?? "UTC",
+    autoStartTimer: settings.autoStartTimer ?? false,
+    actor: { channel: "agent", tool_call_id: toolCallId },
+  };
 }
 
 function getGmailAdapter() {
@@ -76,63 +195,267 @@ function jsonResult(payload: Record<string, unknown>) {
   };
 }
 
+function statusUnion(
+  workflow: WorkflowConfig,
+  extra: string[] = [],
+  options: { description?: string; default?: string } = {}
+) {
+  return Type.Union(
+    [...workflow.statuses.map((s) => s.id), ...extra].map((id) => Type.Literal(id)),
+    options
+  );
+}
+
+function createTaskParams(workflow: WorkflowConfig) {
+  return Type.Object({
+    title: Type.String({ description: "Task title — concise and actionable" }),
+    description: Type.Optional(
+      Type.String({ description: "Additional details about the task" })
+    ),
+    assignee: Type.Optional(
+      Type.Union([Type.Literal("me"), Type.Literal("assistant")], {
+        description: "Who should work on this task",
+        default: "me",
+      })
+    ),
+    status: Type.Optional(
+      statusUnion(workflow, [], {
+        description: "Task status",
+        default: workflow.initialStatus,
+      })
+    ),
+    priority: Type.Optional(
+      Type.Union(
+        [
+          Type.Literal("low"),
+          Type.Literal("medium"),
+          Type.Literal("high"),
+        ],
+        { description: "Task priority", default: "medium" }
+      )
+    ),
+    project: Type.Optional(
+      Type.String({ description: "Project slug (e.g., 'product-launch')" })
+    ),
+    dueDate: Type.Optional(
+      Type.String({
+        description:
+          "Due date: ISO (2026-11-03, 2026-11-03T17:00) or a phrase like 'tomorrow 5pm', 'in 3 days', 'next tue', 'end of month', 'nov 3', resolved in the user's timezone. The result echoes the resolved date as due_date_resolved.",
+      })
+    ),
+    blockedBy: Type.Optional(
+      Type.String({ description: "What/who is blocking this task" })
+    ),
+    followUpDate: Type.Optional(
+      Type.String({ description: "Follow-up date for blocked tasks" })
+    ),
+    recurrence: Type.Optional(
+      Type.String({
+        description:
+          "RRULE-style repeat rule, e.g. 'FREQ=DAILY', 'FREQ=WEEKLY;BYDAY=MO,TH', 'FREQ=MONTHLY;BYMONTHDAY=1' (-1 for last day), or 'FREQ=DAILY;INTERVAL=3;FROM=COMPLETION' to repeat N days after completion. Completing the task creates the next occurrence.",
+      })
+    ),
+    dependsOn: Type.Optional(
+      Type.Array(Type.String(), {
+        description:
+          "Ids or titles of tasks that must be done first. The task stays blocked until all of them are done.",
+      })
+    ),
+    estimate: Type.Optional(
+      Type.Number({
+        minimum: 0,
+        description:
+          "Size of the task in the configured planning unit (hours by default, or story points). Used by plan_week.",
+      })
+    ),
+    tags: Type.Optional(
+      Type.Array(Type.String(), {
+        description:
+          "Tags without the #, e.g. ['ops', 'waiting/legal']. #hashtags in the description are picked up as tags too.",
+      })
+    ),
+    template: Type.Optional(
+      Type.String({
+        description:
+          "Name of a template in Templates/ (see list_templates), e.g. 'Bug Report'. Its frontmatter fills in fields not given here, and its body is added below the description with {{title}}, {{date}} and {{project}} filled in. Defaults to Templates/Task.md when it exists.",
+      })
+    ),
+    force: Type.Optional(
+      Type.Boolean({
+        description: "Create the task even if it exceeds a WIP limit",
+        default: false,
+      })
+    ),
+  });
+}
+
+function updateTaskParams(workflow: WorkflowConfig) {
+  return Type.Object({
+    taskId: Type.String({
+      description: "Task id or title to update",
+    }),
+    title: Type.Optional(Type.String({ description: "New task title" })),
+    description: Type.Optional(
+      Type.String({ description: "New description" })
+    ),
+    assignee: Type.Optional(
+      Type.Union([Type.Literal("me"), Type.Literal("assistant")])
+    ),
+    status: Type.Optional(statusUnion(workflow)),
+    priority: Type.Optional(
+      Type.Union([
+        Type.Literal("low"),
+        Type.Literal("medium"),
+        Type.Literal("high"),
+      ])
+    ),
+    project: Type.Optional(Type.String()),
+    dueDate: Type.Optional(
+      Type.String({
+        description:
+          "ISO date or a phrase like 'tomorrow 5pm' or 'next tue' (see create_task). Pass an empty string to clear it.",
+      })
+    ),
+    blockedBy: Type.Optional(Type.String()),
+    followUpDate: Type.Optional(Type.String()),
+    recurrence: Type.Optional(
+      Type.String({
+        description:
+          "RRULE-style repeat rule (see create_task). Pass an empty string to stop repeating.",
+      })
+    ),
+    dependsOn: Type.Optional(
+      Type.Array(Type.String(), {
+        description:
+          "Replace the task's dependencies with these task ids or titles. Pass an empty array to clear them.",
+      })
+    ),
+    estimate: Type.Optional(
+      Type.Union([Type.Number({ minimum: 0 }), Type.Null()], {
+        description: "Size in the configured planning unit (hours or points). Pass null to clear it.",
+      })
+    ),
+    addTags: Type.Optional(
+      Type.Array(Type.String(), { description: "Tags to add to the task's frontmatter" })
+    ),
+    removeTags: Type.Optional(
+      Type.Array(Type.String(), {
+        description:
+          "Tags to remove from the task's frontmatter. Tags written as #hashtags in the description stay until the description changes; they are listed under tags_kept_inline.",
+      })
+    ),
+    force: Type.Optional(
+      Type.Boolean({
+        description: "Apply the change even if it exceeds a WIP limit",
+        default: false,
+      })
+    ),
+  });
+}
+
 export default function corePlugin(api: PluginApi) {
+  const workflow = resolveWorkflow(api.pluginConfig?.workflow);
+  const settings: VaultSettings = {
+    workflow,
+    planning: resolvePlanning(api.pluginConfig?.planning),
+    dailyNotes: resolveDailyNotes(api.pluginConfig?.dailyNotes),
+    trashRetentionDays: resolveDays(
+      api.pluginConfig?.trashRetentionDays,
+      "trashRetentionDays"
+    ),
+    autoArchiveDays: resolveDays(api.pluginConfig?.autoArchiveDays, "autoArchiveDays"),
+    globalBoard: resolveGlobalBoard(api.pluginConfig?.globalBoard),
+    timezone: resolveTimezone(api.pluginConfig?.timezone ?? heartbeatTimezone(api.config)),
+    autoStartTimer: resolveFlag(api.pluginConfig?.autoStartTimer, "autoStartTimer"),
+  };
+  const CreateTaskParams = createTaskParams(workflow);
+  const UpdateTaskParams = updateTaskParams(workflow);
+
+  // ── Vault Watcher ──
+
+  let stopWatcher: (() => void) | null = null;
+
+  api.registerService?.({
+    id: "vault-watcher",
+    start() {
+      if (!process.env.VAULT_PATH || process.env.VAULT_WATCH === "false") return;
+      try {
+        stopWatcher = watchVault(getVaultConfig(settings), {
+          debounceMs: Number(process.env.VAULT_WATCH_DEBOUNCE_MS) || undefined,
+          onEvent: (event) => api.broadcast?.({ ...event }),
+          onWarning: (message) => api.logger?.warn(`vault-watcher: ${message}`),
+        });
+      } catch (e) {
+        api.logger?.error(
+          `vault-watcher: not watching the vault: ${e instanceof Error ? e.message : e}`
+        );
+      }
+    },
+    stop() {
+      stopWatcher?.();
+      stopWatcher = null;
+    },
+  });
+
   // ── Task Tools ──
 
   api.registerTool({
     name: "create_task",
     description:
       "Create a new task in the Obsidian vault. Use assignee 'me' for user tasks, 'assistant' for tasks the AI should handle.",
+    parameters: CreateTaskParams,
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return createTask(config, params as Parameters<typeof createTask>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "list_templates",
+    description:
+      "List the task templates in Templates/ with the frontmatter defaults and body each one applies. Pass a template's name to create_task to use it.",
+    parameters: Type.Object({}),
+    async execute(id) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return listTemplates(config);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "bulk_create_tasks",
+    description:
+      "Create many tasks at once (e.g. from a brain dump) with a single board update. Every item is validated before anything is written. Returns a per-item success/error entry plus a summary.",
     parameters: Type.Object({
-      title: Type.String({ description: "Task title — concise and actionable" }),
-      description: Type.Optional(
-        Type.String({ description: "Additional details about the task" })
-      ),
-      assignee: Type.Optional(
-        Type.Union([Type.Literal("me"), Type.Literal("assistant")], {
-          description: "Who should work on this task",
-          default: "me",
+      items: Type.Array(CreateTaskParams, {
+        description: "Tasks to create — same fields as create_task",
+      }),
+      atomic: Type.Optional(
+        Type.Boolean({
+          description:
+            "All-or-nothing: if any item fails, create none of them and roll back files already written",
+          default: false,
         })
       ),
-      status: Type.Optional(
-        Type.Union(
-          [
-            Type.Literal("working"),
-            Type.Literal("next"),
-            Type.Literal("blocked"),
-            Type.Literal("backlog"),
-            Type.Literal("done"),
-          ],
-          { description: "Task status", default: "backlog" }
-        )
-      ),
-      priority: Type.Optional(
-        Type.Union(
-          [
-            Type.Literal("low"),
-            Type.Literal("medium"),
-            Type.Literal("high"),
-          ],
-          { description: "Task priority", default: "medium" }
-        )
-      ),
-      project: Type.Optional(
-        Type.String({ description: "Project slug (e.g., 'product-launch')" })
-      ),
-      dueDate: Type.Optional(
-        Type.String({ description: "Due date in ISO format" })
-      ),
-      blockedBy: Type.Optional(
-        Type.String({ description: "What/who is blocking this task" })
-      ),
-      followUpDate: Type.Optional(
-        Type.String({ description: "Follow-up date for blocked tasks" })
-      ),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
-        return createTask(config, params as Parameters<typeof createTask>[1]);
+        const config = getVaultConfig(settings, id);
+        return bulkCreateTasks(
+          config,
+          params as Parameters<typeof bulkCreateTasks>[1]
+        );
       } catch (e) {
         return jsonResult({
           error: e instanceof Error ? e.message : "Unknown error",
@@ -144,7 +467,7 @@ export default function corePlugin(api: PluginApi) {
   api.registerTool({
     name: "list_tasks",
     description:
-      "List tasks from the Obsidian vault. With no status filter, returns all open tasks. Use status 'active' for working/next/blocked only.",
+      `List tasks from the Obsidian vault. With no status filter, returns all open tasks. Use status 'active' for ${workflow.active.join("/")} only.`,
     parameters: Type.Object({
       assignee: Type.Optional(
         Type.Union(
@@ -157,34 +480,47 @@ export default function corePlugin(api: PluginApi) {
         )
       ),
       status: Type.Optional(
-        Type.Union(
-          [
-            Type.Literal("working"),
-            Type.Literal("next"),
-            Type.Literal("blocked"),
-            Type.Literal("backlog"),
-            Type.Literal("done"),
-            Type.Literal("active"),
-            Type.Literal("all"),
-          ],
-          { description: "Filter by status" }
-        )
+        statusUnion(workflow, ["active", "all"], {
+          description: "Filter by status",
+        })
       ),
       project: Type.Optional(
         Type.String({ description: "Filter by project slug" })
       ),
+      tags: Type.Optional(
+        Type.Array(Type.String(), {
+          description:
+            "Filter by tags, from frontmatter or #hashtags in the task body (case-insensitive)",
+        })
+      ),
+      tagMode: Type.Optional(
+        Type.Union([Type.Literal("any"), Type.Literal("all")], {
+          description: "any: tasks with at least one of the tags. all: tasks with every tag.",
+          default: "any",
+        })
+      ),
       search: Type.Optional(
         Type.String({
           description: "Search tasks by title (case-insensitive)",
         })
       ),
+      query: Type.Optional(
+        Type.String({
+          description: "Extra filters in search_tasks query syntax",
+        })
+      ),
       limit: Type.Optional(
         Type.Number({ description: "Max tasks to return", default: 50 })
       ),
+      cursor: Type.Optional(
+        Type.String({
+          description: "next_cursor from a previous call to fetch the next page",
+        })
+      ),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
+        const config = getVaultConfig(settings, id);
         return listTasks(config, params as Parameters<typeof listTasks>[1]);
       } catch (e) {
         return jsonResult({
@@ -195,44 +531,64 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "update_task",
+    name: "list_tags",
     description:
-      "Update an existing task in the vault. Pass the task title (or filename) as taskId.",
+      "List every tag used on tasks, from frontmatter and #hashtags in task bodies, with how many tasks carry it and how many of those are open. Most used first.",
     parameters: Type.Object({
-      taskId: Type.String({
-        description: "Task title or filename to update",
-      }),
-      title: Type.Optional(Type.String({ description: "New task title" })),
-      description: Type.Optional(
-        Type.String({ description: "New description" })
+      includeArchived: Type.Optional(
+        Type.Boolean({
+          description: "Also count tasks in Tasks/Archive/",
+          default: false,
+        })
       ),
-      assignee: Type.Optional(
-        Type.Union([Type.Literal("me"), Type.Literal("assistant")])
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return listTags(config, params as Parameters<typeof listTags>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "search_tasks",
+    description:
+      "Search tasks with a query language. Filters: status:, priority: (also priority>=medium), assignee:, project:, tag:, id:, is:open|closed|active|overdue|recurring, has:due|project|tags|deps|subtasks|estimate, and date comparisons on due/created/completed/follow_up in the user's timezone (e.g. due<2026-11-01, due<=today). Prefix any term with - to negate it, use \"exact phrase\" for phrases, bare words match title or description. Sort with sort:due|priority|created|title|status (sort:-due for descending). Example: priority:high due<2026-11-01 tag:ops -status:done \"exact phrase\" sort:due",
+    parameters: Type.Object({
+      query: Type.String({ description: "Search query" }),
+      limit: Type.Optional(
+        Type.Number({ description: "Max tasks per page", default: 20 })
       ),
-      status: Type.Optional(
-        Type.Union([
-          Type.Literal("working"),
-          Type.Literal("next"),
-          Type.Literal("blocked"),
-          Type.Literal("backlog"),
-          Type.Literal("done"),
-        ])
-      ),
-      priority: Type.Optional(
-        Type.Union([
-          Type.Literal("low"),
-          Type.Literal("medium"),
-          Type.Literal("high"),
-        ])
+      cursor: Type.Optional(
+        Type.String({
+          description: "next_cursor from a previous call to fetch the next page",
+        })
       ),
-      project: Type.Optional(Type.String()),
-      dueDate: Type.Optional(Type.String()),
-      blockedBy: Type.Optional(Type.String()),
-      followUpDate: Type.Optional(Type.String()),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return searchTasks(config, params as Parameters<typeof searchTasks>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "update_task",
+    description:
+      "Update an existing task in the vault. Pass the task id (preferred) or title as taskId. If the title doesn't match exactly, returns ambiguous: true with ranked candidates (including archived tasks) instead of guessing — confirm with the user and retry with the candidate's id.",
+    parameters: UpdateTaskParams,
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
+        const config = getVaultConfig(settings, id);
         return updateTask(config, params as Parameters<typeof updateTask>[1]);
       } catch (e) {
         return jsonResult({
@@ -242,15 +598,47 @@ export default function corePlugin(api: PluginApi) {
     },
   });
 
+  api.registerTool({
+    name: "bulk_update_tasks",
+    description:
+      "Update many tasks at once with a single board update. Every item is validated (including ambiguous taskIds) before anything is written. Returns a per-item success/error entry plus a summary.",
+    parameters: Type.Object({
+      items: Type.Array(UpdateTaskParams, {
+        description: "Updates to apply — same fields as update_task",
+      }),
+      atomic: Type.Optional(
+        Type.Boolean({
+          description:
+            "All-or-nothing: if any item fails, restore every task file touched by this call",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return bulkUpdateTasks(
+          config,
+          params as Parameters<typeof bulkUpdateTasks>[1]
+        );
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
   api.registerTool({
     name: "complete_task",
-    description: "Mark a task as done.",
+    description:
+      "Mark a task as done. Recurring tasks spawn their next occurrence with a rolled-forward due date. Returns ambiguous candidates if taskId doesn't match exactly (see update_task).",
     parameters: Type.Object({
-      taskId: Type.String({ description: "Task title or filename to complete" }),
+      taskId: Type.String({ description: "Task id or title to complete" }),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
+        const config = getVaultConfig(settings, id);
         return completeTask(config, { taskId: params.taskId as string });
       } catch (e) {
         return jsonResult({
@@ -261,16 +649,22 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "archive_task",
+    name: "add_subtask",
     description:
-      "Archive a task. Moves the file to Tasks/Archive/ and removes it from the board.",
+      "Add a checklist item (- [ ]) to a task's description. Existing text in the description is left untouched.",
     parameters: Type.Object({
-      taskId: Type.String({ description: "Task title or filename to archive" }),
+      taskId: Type.String({ description: "Task id or title" }),
+      text: Type.String({ description: "Subtask text" }),
+      parent: Type.Optional(
+        Type.Number({
+          description: "Index of an existing subtask to nest this one under",
+        })
+      ),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
-        return archiveTask(config, { taskId: params.taskId as string });
+        const config = getVaultConfig(settings, id);
+        return addSubtask(config, params as Parameters<typeof addSubtask>[1]);
       } catch (e) {
         return jsonResult({
           error: e instanceof Error ? e.message : "Unknown error",
@@ -280,16 +674,28 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "delete_task",
+    name: "toggle_subtask",
     description:
-      "Permanently delete a task. This cannot be undone — prefer archive_task.",
+      "Check or uncheck a checklist item in a task's description. Identify it by index (from list_tasks subtasks) or by its text.",
     parameters: Type.Object({
-      taskId: Type.String({ description: "Task title or filename to delete" }),
+      taskId: Type.String({ description: "Task id or title" }),
+      index: Type.Optional(Type.Number({ description: "Subtask index" })),
+      text: Type.Optional(
+        Type.String({ description: "Subtask text (exact or partial match)" })
+      ),
+      done: Type.Optional(
+        Type.Boolean({
+          description: "Set done/undone explicitly instead of flipping",
+        })
+      ),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
-        return deleteTask(config, { taskId: params.taskId as string });
+        const config = getVaultConfig(settings, id);
+        return toggleSubtask(
+          config,
+          params as Parameters<typeof toggleSubtask>[1]
+        );
       } catch (e) {
         return jsonResult({
           error: e instanceof Error ? e.message : "Unknown error",
@@ -299,13 +705,16 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "list_projects",
-    description: "List all projects found in the vault.",
-    parameters: Type.Object({}),
-    async execute() {
+    name: "archive_task",
+    description:
+      "Archive a task. Moves the file to Tasks/Archive/ and removes it from the board. Returns ambiguous candidates if taskId doesn't match exactly (see update_task).",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task id or title to archive" }),
+    }),
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
-        return listProjects(config);
+        const config = getVaultConfig(settings, id);
+        return archiveTask(config, { taskId: params.taskId as string });
       } catch (e) {
         return jsonResult({
           error: e instanceof Error ? e.message : "Unknown error",
@@ -315,24 +724,40 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "create_project",
-    description: "Create a new project in the vault's Projects/ folder.",
+    name: "delete_task",
+    description:
+      "Delete a task. The file and its board card are kept in the trash (Tasks/.trash/) for the retention period and can be brought back with restore_task. Prefer archive_task for finished work. Returns ambiguous candidates if taskId doesn't match exactly (see update_task).",
     parameters: Type.Object({
-      slug: Type.String({ description: "Project identifier (e.g., 'product-launch')" }),
-      displayName: Type.Optional(
-        Type.String({ description: "Human-readable project name" })
-      ),
-      description: Type.Optional(
-        Type.String({ description: "Project description" })
+      taskId: Type.String({ description: "Task id or title to delete" }),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return deleteTask(config, { taskId: params.taskId as string });
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "undo_last_change",
+    description:
+      "Undo the most recent update_task, archive_task or delete_task (including renames), restoring the task file, the dependent tasks it changed and their board cards exactly as they were. Call again to step further back. Refuses if the files were edited since, unless force is true.",
+    parameters: Type.Object({
+      force: Type.Optional(
+        Type.Boolean({
+          description: "Restore even if the task was edited after the change",
+          default: false,
+        })
       ),
     }),
-    async execute(_id, params) {
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
-        return createProject(
-          config,
-          params as Parameters<typeof createProject>[1]
-        );
+        const config = getVaultConfig(settings, id);
+        return undoLastChange(config, params as Parameters<typeof undoLastChange>[1]);
       } catch (e) {
         return jsonResult({
           error: e instanceof Error ? e.message : "Unknown error",
@@ -342,16 +767,22 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "sync_board",
+    name: "restore_task",
     description:
-      "Synchronize the Kanban Board.md with individual task files. Run this if the board gets out of sync.",
-    parameters: Type.Object({}),
-    async execute() {
+      "Bring back a deleted or archived task, with its board card in its old column and position. Deleted tasks can be restored within the trash retention period; archived tasks are moved out of Archive/.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Id or title of the deleted or archived task" }),
+      force: Type.Optional(
+        Type.Boolean({
+          description: "Restore even if the files were edited after the task was removed",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
       try {
-        const config = getVaultConfig();
-        const result = syncBoardWithFiles(config);
-        const lastSync = getLastSyncTime(config);
-        return jsonResult({ synced: true, lastSync, ...result });
+        const config = getVaultConfig(settings, id);
+        return restoreTask(config, params as Parameters<typeof restoreTask>[1]);
       } catch (e) {
         return jsonResult({
           error: e instanceof Error ? e.message : "Unknown error",
@@ -361,18 +792,595 @@ export default function corePlugin(api: PluginApi) {
   });
 
   api.registerTool({
-    name: "get_current_time",
-    description: "Get the current date and time.",
+    name: "list_archived_tasks",
+    description:
+      "List tasks in Tasks/Archive/, newest archive first. Takes the same filters as list_tasks (status excepted) plus an archived date range. The query syntax also supports archived<DATE and sort:archived.",
     parameters: Type.Object({
-      timezone: Type.Optional(
+      archivedAfter: Type.Optional(
         Type.String({
-          description: "IANA timezone (e.g., 'America/New_York')",
-          default: "UTC",
+          description: "Only tasks archived on or after this date (YYYY-MM-DD)",
         })
       ),
-    }),
-    async execute(_id, params) {
-      return getCurrentTime({ timezone: params.timezone as string });
+      archivedBefore: Type.Optional(
+        Type.String({
+          description: "Only tasks archived on or before this date (YYYY-MM-DD)",
+        })
+      ),
+      assignee: Type.Optional(
+        Type.Union(
+          [
+            Type.Literal("me"),
+            Type.Literal("assistant"),
+            Type.Literal("all"),
+          ],
+          { description: "Filter by assignee" }
+        )
+      ),
+      project: Type.Optional(
+        Type.String({ description: "Filter by project slug" })
+      ),
+      tags: Type.Optional(
+        Type.Array(Type.String(), {
+          description:
+            "Filter by tags, from frontmatter or #hashtags in the task body (case-insensitive)",
+        })
+      ),
+      tagMode: Type.Optional(
+        Type.Union([Type.Literal("any"), Type.Literal("all")], {
+          description: "any: tasks with at least one of the tags. all: tasks with every tag.",
+          default: "any",
+        })
+      ),
+      search: Type.Optional(
+        Type.String({
+          description: "Search tasks by title (case-insensitive)",
+        })
+      ),
+      query: Type.Optional(
+        Type.String({
+          description: "Extra filters in search_tasks query syntax",
+        })
+      ),
+      limit: Type.Optional(
+        Type.Number({ description: "Max tasks to return", default: 50 })
+      ),
+      cursor: Type.Optional(
+        Type.String({
+          description: "next_cursor from a previous call to fetch the next page",
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return listArchivedTasks(
+          config,
+          params as Parameters<typeof listArchivedTasks>[1]
+        );
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "unarchive_task",
+    description:
+      "Move an archived task back into Tasks/. It returns to the status it had before archiving (or the given status) and its board card goes back to its old position when possible. Subject to WIP limits.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Id or title of the archived task" }),
+      status: Type.Optional(
+        statusUnion(workflow, [], {
+          description: "Status to restore the task to instead of its previous one",
+        })
+      ),
+      force: Type.Optional(
+        Type.Boolean({
+          description: "Unarchive even if it exceeds a WIP limit",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return unarchiveTask(config, params as Parameters<typeof unarchiveTask>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "list_projects",
+    description:
+      "List all projects found in the vault with their status, owner, target date and task counts (open, done, overdue, percent complete).",
+    parameters: Type.Object({}),
+    async execute() {
+      try {
+        const config = getVaultConfig(settings);
+        return listProjects(config);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "get_project",
+    description:
+      "Get a project with its goals, description, tasks and rollup: counts by status, overdue tasks, percent complete, weekly throughput over the last 4 weeks and a projected finish date (on_track compares it with the target date).",
+    parameters: Type.Object({
+      slug: Type.String({ description: "Project slug" }),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return getProject(config, params as Parameters<typeof getProject>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  const projectFields = {
+    displayName: Type.Optional(
+      Type.String({ description: "Human-readable project name" })
+    ),
+    description: Type.Optional(
+      Type.String({ description: "Project description" })
+    ),
+    owner: Type.Optional(Type.String({ description: "Who owns the project" })),
+    targetDate: Type.Optional(
+      Type.String({ description: "Target completion date (ISO format)" })
+    ),
+    goals: Type.Optional(
+      Type.Array(Type.String(), { description: "Project goals, one per entry" })
+    ),
+    board: Type.Optional(
+      Type.Boolean({
+        description:
+          "Give the project its own Kanban board at Projects/<slug>/Board.md (false removes it)",
+      })
+    ),
+  };
+
+  api.registerTool({
+    name: "create_project",
+    description:
+      "Create a new project in the vault's Projects/ folder. The note keeps an auto-maintained list of the project's tasks.",
+    parameters: Type.Object({
+      slug: Type.String({ description: "Project identifier (e.g., 'product-launch')" }),
+      ...projectFields,
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return createProject(
+          config,
+          params as Parameters<typeof createProject>[1]
+        );
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "update_project",
+    description:
+      "Update a project's name, description, status, owner, target date or goals. Pass an empty string to clear owner or targetDate; goals replaces the whole list.",
+    parameters: Type.Object({
+      slug: Type.String({ description: "Project slug" }),
+      ...projectFields,
+      status: Type.Optional(
+        Type.Union(PROJECT_STATUSES.map((s) => Type.Literal(s)))
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return updateProject(
+          config,
+          params as Parameters<typeof updateProject>[1]
+        );
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "archive_project",
+    description:
+      "Move a project note to Projects/Archive/. Refuses while the project has open tasks unless force is set; its tasks are left as they are.",
+    parameters: Type.Object({
+      slug: Type.String({ description: "Project slug" }),
+      force: Type.Optional(
+        Type.Boolean({
+          description: "Archive even though the project still has open tasks",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return archiveProject(
+          config,
+          params as Parameters<typeof archiveProject>[1]
+        );
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "rename_project",
+    description:
+      "Change a project's slug: renames the project note and board folder, updates the project field of every task (including archived ones) and rewrites [[wikilinks]] to the project across the vault. Returns the files changed; use dryRun to preview.",
+    parameters: Type.Object({
+      from: Type.String({ description: "Current project slug" }),
+      to: Type.String({ description: "New project slug" }),
+      dryRun: Type.Optional(
+        Type.Boolean({
+          description: "Report the files that would change without writing anything",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return renameProject(config, params as Parameters<typeof renameProject>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "merge_projects",
+    description:
+      "Merge one or more projects into a target project: moves their tasks (including archived ones), rewrites [[wikilinks]], folds their notes' goals and descriptions into the target note and removes the source notes and boards. Returns the files changed; use dryRun to preview.",
+    parameters: Type.Object({
+      sources: Type.Array(Type.String(), {
+        description: "Slugs of the projects to merge away",
+        minItems: 1,
+      }),
+      target: Type.String({ description: "Slug of the project to merge into" }),
+      dryRun: Type.Optional(
+        Type.Boolean({
+          description: "Report the files that would change without writing anything",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return mergeProjects(config, params as Parameters<typeof mergeProjects>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "sync_board",
+    description:
+      "Two-way sync between the Kanban boards and task files: the global Board.md and every project board (Projects/<slug>/Board.md), or only one project's board when project is given. Whichever side changed since the last sync wins; if both changed, the task is reported under conflicts (and in 'Sync Conflicts.md' next to the board) and neither side is overwritten. When autoArchiveDays is configured, finished tasks completed longer ago than that are archived first (listed under auto_archived). The vault watcher normally runs this automatically.",
+    parameters: Type.Object({
+      project: Type.Optional(
+        Type.String({ description: "Only sync this project's board" })
+      ),
+      preferBoard: Type.Optional(
+        Type.Boolean({
+          description:
+            "Resolve conflicts (both sides changed) in favour of the board's column instead of reporting them",
+          default: false,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        const autoArchived = autoArchiveTasks(config);
+        const result = syncBoardWithFiles(config, {
+          preferBoard: params.preferBoard as boolean | undefined,
+          project: params.project as string | undefined,
+        });
+        refreshProjectNotes(config);
+        updateDailyNote(config);
+        const lastSync = getLastSyncTime(config);
+        return jsonResult({
+          synced: true,
+          lastSync,
+          ...result,
+          auto_archived: autoArchived,
+        });
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "get_task_graph",
+    description:
+      "Get the task dependency graph (nodes and depends_on edges) and the critical path — the longest chain of open tasks that must be finished in order.",
+    parameters: Type.Object({
+      project: Type.Optional(
+        Type.String({ description: "Limit the graph to one project slug" })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return getTaskGraph(config, params as Parameters<typeof getTaskGraph>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "get_task_history",
+    description:
+      "Get the change log for a task (every field change with old/new value, timestamp and actor) plus its lead time (created → done) and cycle time (first start → done). Without taskId, returns the most recent changes across all tasks and average lead/cycle times.",
+    parameters: Type.Object({
+      taskId: Type.Optional(
+        Type.String({
+          description: "Task id or title. Deleted tasks can be looked up by id.",
+        })
+      ),
+      limit: Type.Optional(
+        Type.Number({ description: "Max entries to return", default: 50 })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return getTaskHistory(config, params as Parameters<typeof getTaskHistory>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "start_timer",
+    description:
+      "Start a timer on a task. Time is logged when stop_timer is called. Each task has at most one running timer; timers on different tasks can run at the same time.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task id or title" }),
+      note: Type.Optional(
+        Type.String({ description: "What the time is for; saved with the entry" })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return startTimer(config, params as Parameters<typeof startTimer>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "stop_timer",
+    description:
+      "Stop a running timer and log the elapsed minutes against its task. Returns the entry and the task's total tracked time.",
+    parameters: Type.Object({
+      taskId: Type.Optional(
+        Type.String({
+          description: "Task id or title. Can be omitted when only one timer is running.",
+        })
+      ),
+      note: Type.Optional(Type.String({ description: "Note to add to the entry" })),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return stopTimer(config, params as Parameters<typeof stopTimer>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "log_time",
+    description:
+      "Log time spent on a task without a timer, e.g. after the fact. Returns the entry and the task's total tracked time.",
+    parameters: Type.Object({
+      taskId: Type.String({ description: "Task id or title" }),
+      minutes: Type.Number({ description: "Minutes spent (convert hours, e.g. 1.5h → 90)" }),
+      date: Type.Optional(
+        Type.String({
+          description:
+            "Day the work was done: ISO date or a phrase like 'yesterday', in the user's timezone. Defaults to today.",
+        })
+      ),
+      note: Type.Optional(Type.String({ description: "What the time was spent on" })),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return logTime(config, params as Parameters<typeof logTime>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "time_report",
+    description:
+      "Report tracked time, totalled by project, assignee, tag, task and date, for an optional date range and filters. Tasks are grouped by their current project and tags. Set csv to also write the entries as a CSV file in the vault (Reports/ by default).",
+    parameters: Type.Object({
+      from: Type.Optional(
+        Type.String({ description: "First day to include (ISO date or phrase, inclusive)" })
+      ),
+      to: Type.Optional(
+        Type.String({ description: "Last day to include (ISO date or phrase, inclusive)" })
+      ),
+      project: Type.Optional(Type.String({ description: "Only this project" })),
+      assignee: Type.Optional(
+        Type.Union([Type.Literal("me"), Type.Literal("assistant")], {
+          description: "Only this assignee",
+        })
+      ),
+      tag: Type.Optional(Type.String({ description: "Only tasks with this tag" })),
+      csv: Type.Optional(
+        Type.Boolean({ description: "Write the matching entries to a CSV file in the vault" })
+      ),
+      csvPath: Type.Optional(
+        Type.String({
+          description:
+            "Vault-relative path for the CSV, e.g. 'Reports/Acme October.csv'. Implies csv.",
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return timeReport(config, params as Parameters<typeof timeReport>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "plan_week",
+    description: `Propose a plan for a week: picks ${workflow.unblockedStatus}/${workflow.initialStatus} tasks by due date, priority and dependencies to fill each assignee's weekly capacity, after counting work already in progress. Tasks without an estimate are listed separately. Nothing changes until the user accepts: then call again with accept set to the chosen task ids to move them to ${workflow.unblockedStatus}.`,
+    parameters: Type.Object({
+      assignee: Type.Optional(
+        Type.Union([Type.Literal("me"), Type.Literal("assistant")], {
+          description: "Plan for one assignee. Defaults to every assignee with a configured capacity.",
+        })
+      ),
+      capacity: Type.Optional(
+        Type.Number({
+          minimum: 0,
+          description: "Override the configured weekly capacity (hours or points)",
+        })
+      ),
+      weekOf: Type.Optional(
+        Type.String({
+          description:
+            "Any day in the week to plan (Monday to Sunday), as an ISO date or a phrase like 'next week'. Defaults to this week.",
+        })
+      ),
+      accept: Type.Optional(
+        Type.Array(Type.String(), {
+          description: "Task ids from an accepted plan to move to " + workflow.unblockedStatus,
+        })
+      ),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return planWeek(config, params as Parameters<typeof planWeek>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "get_wip_status",
+    description:
+      "Get work-in-progress counts against the configured WIP limits, per status and per assignee. create_task and update_task enforce the same limits.",
+    parameters: Type.Object({}),
+    async execute() {
+      try {
+        const config = getVaultConfig(settings);
+        return getWipStatus(config);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
+    },
+  });
+
+  api.registerTool({
+    name: "get_current_time",
+    description:
+      "Get the current date and time. Defaults to the user's configured timezone; 'date' is today's date there.",
+    parameters: Type.Object({
+      timezone: Type.Optional(
+        Type.String({
+          description:
+            "IANA timezone (e.g., 'America/New_York'). Defaults to the user's configured timezone.",
+        })
+      ),
+    }),
+    async execute(_id, params) {
+      return getCurrentTime(getVaultConfig(settings), {
+        timezone: params.timezone as string,
+      });
+    },
+  });
+
+  // ── Daily Notes ──
+
+  api.registerTool({
+    name: "log_to_daily_note",
+    description:
+      "Record a decision or note in today's daily note (Daily/YYYY-MM-DD.md, created from Templates/Daily.md if missing) under the Agent log section, and refresh its completed-today, due-today and follow-up sections. Only the agent's own sections are rewritten; the user's text is left alone. Logging the same text twice on one day is a no-op.",
+    parameters: Type.Object({
+      text: Type.String({
+        description: "What to record, e.g. 'Moved the launch review to Friday — waiting on legal'",
+      }),
+    }),
+    async execute(id, params) {
+      try {
+        const config = getVaultConfig(settings, id);
+        return logToDailyNote(config, params as Parameters<typeof logToDailyNote>[1]);
+      } catch (e) {
+        return jsonResult({
+          error: e instanceof Error ? e.message : "Unknown error",
+        });
+      }
     },
   });
 
@@ -454,11 +1462,17 @@ export default function corePlugin(api: PluginApi) {
             },
           };
 
-          return await runEmailTriage(
+          const result = await runEmailTriage(
             gmail,
             model,
             params as Parameters<typeof runEmailTriage>[2]
           );
+          if (process.env.VAULT_PATH && !params.dryRun) {
+            updateDailyNote(getVaultConfig(settings), {
+              triage: result.details as unknown as TriageSummary,
+            });
+          }
+          return result;
         } catch (e) {
           return jsonResult({
             error: e instanceof Error ? e.message : "Unknown error",
@@ -589,10 +1603,11 @@ export default function corePlugin(api: PluginApi) {
       parameters: Type.Object({}),
       async execute() {
         try {
-          const config = getVaultConfig();
+          const config = getVaultConfig(settings);
           const gmail = getGmailAdapter();
           const result = await refreshFollowUps(gmail, config);
           const summary = getFollowUpSummary(config.followUpsFile);
+          updateDailyNote(config);
           return jsonResult({ ...result, summary });
         } catch (e) {
           return jsonResult({
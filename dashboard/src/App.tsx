@@ -5,7 +5,7 @@ import { EmailSummary } from './components/EmailSummary'
 import { ChatPanel } from './components/ChatPanel'
 import { HeartbeatStatus } from './components/HeartbeatStatus'
 import { connectToAgent, sendMessage } from './lib/agent-api'
-import type { Task, AgentMessage, EmailCategory } from './lib/types'
+import type { Task, Workflow, AgentMessage, EmailCategory } from './lib/types'
 
 type TabId = 'tasks' | 'email' | 'chat'
 
@@ -21,6 +21,7 @@ export default function App() {
   const [activeTab, setActiveTab] = useState<TabId>('tasks')
   const [connected, setConnected] = useState(false)
   const [tasks, setTasks] = useState<Task[]>([])
+  const [workflow, setWorkflow] = useState<Workflow | null>(null)
   const [emailCounts, setEmailCounts] = useState<Record<EmailCategory, number>>({
     to_respond: 0, fyi: 0, comment: 0, notification: 0,
     meeting_update: 0, awaiting_reply: 0, actioned: 0, marketing: 0,
@@ -50,6 +51,7 @@ export default function App() {
 
       if (toolName === 'list_tasks' && details?.tasks) {
         setTasks(details.tasks as Task[])
+        if (details.workflow) setWorkflow(details.workflow as Workflow)
         setLastSync(new Date().toISOString())
       }
 
@@ -152,6 +154,7 @@ export default function App() {
         {activeTab === 'tasks' && (
           <TaskBoard
             tasks={tasks}
+            workflow={workflow}
             onSendToAgent={handleSendToAgent}
             isConnected={connected}
             lastSync={lastSync}
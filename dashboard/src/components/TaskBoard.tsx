@@ -1,21 +1,48 @@
 import { useState } from 'react'
-import { Plus, ArrowRight, CheckCircle2, Clock, AlertTriangle, Inbox, Send } from 'lucide-react'
-import type { Task, TaskStatus } from '../lib/types'
+import { Plus, ArrowRight, CheckCircle2, Clock, AlertTriangle, Inbox, Send, Circle, Tag } from 'lucide-react'
+import type { Task, TaskStatus, Workflow } from '../lib/types'
 
 interface TaskBoardProps {
   tasks: Task[]
+  workflow: Workflow | null
   onSendToAgent: (message: string) => void
   isConnected: boolean
   lastSync: string
 }
 
-const COLUMNS: Array<{ status: TaskStatus; label: string; icon: React.ElementType; color: string }> = [
-  { status: 'backlog', label: 'Backlog', icon: Inbox, color: 'border-gray-600' },
-  { status: 'next', label: 'Next', icon: ArrowRight, color: 'border-blue-600' },
-  { status: 'working', label: 'Working', icon: Clock, color: 'border-amber-600' },
-  { status: 'blocked', label: 'Blocked', icon: AlertTriangle, color: 'border-red-600' },
-  { status: 'done', label: 'Done', icon: CheckCircle2, color: 'border-emerald-600' },
-]
+const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { id: 'backlog', column: 'Backlog' },
+    { id: 'next', column: 'Next' },
+    { id: 'working', column: 'Working' },
+    { id: 'blocked', column: 'Blocked' },
+    { id: 'done', column: 'Done' },
+  ],
+  active: ['next', 'working', 'blocked'],
+  closed: ['done'],
+  startedStatuses: ['working'],
+  transitions: null,
+  initialStatus: 'backlog',
+  doneStatus: 'done',
+  blockedStatus: 'blocked',
+  unblockedStatus: 'next',
+  wipLimits: { statuses: { working: 5 }, assignees: {}, assigneeStatuses: ['working'], mode: 'warn' },
+}
+
+const STATUS_STYLES: Record<string, { icon: React.ElementType; color: string; button: string }> = {
+  backlog: { icon: Inbox, color: 'border-gray-600', button: 'bg-gray-600/20 text-gray-300 hover:bg-gray-600/30' },
+  next: { icon: ArrowRight, color: 'border-blue-600', button: 'bg-blue-600/20 text-blue-300 hover:bg-blue-600/30' },
+  working: { icon: Clock, color: 'border-amber-600', button: 'bg-amber-600/20 text-amber-300 hover:bg-amber-600/30' },
+  blocked: { icon: AlertTriangle, color: 'border-red-600', button: 'bg-red-600/20 text-red-300 hover:bg-red-600/30' },
+  done: { icon: CheckCircle2, color: 'border-emerald-600', button: 'bg-emerald-600/20 text-emerald-300 hover:bg-emerald-600/30' },
+}
+
+const FALLBACK_STYLE = { icon: Circle, color: 'border-indigo-600', button: 'bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30' }
+
+function canMove(workflow: Workflow, from: TaskStatus, to: TaskStatus) {
+  const allowed = workflow.transitions?.[from]
+  return from !== to && (!allowed || allowed.includes(to))
+}
 
 const PRIORITY_COLORS: Record<string, string> = {
   high: 'bg-red-500/20 text-red-300',
@@ -23,9 +50,50 @@ const PRIORITY_COLORS: Record<string, string> = {
   low: 'bg-gray-500/20 text-gray-400',
 }
 
-export function TaskBoard({ tasks, onSendToAgent, isConnected }: TaskBoardProps) {
+// Date-only due dates are calendar days, not UTC midnight, so they are shown
+// as-is; due dates with a time carry an offset and are shown in local time.
+function formatDueDate(dueDate: string) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+    return new Date(dueDate + 'T00:00:00Z').toLocaleDateString(undefined, { timeZone: 'UTC' })
+  }
+  return new Date(dueDate).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+}
+
+function hasTag(task: Task, tag: string) {
+  return task.tags.some(t => t.toLowerCase() === tag.toLowerCase())
+}
+
+export function TaskBoard({ tasks, workflow: configuredWorkflow, onSendToAgent, isConnected }: TaskBoardProps) {
+  const workflow = configuredWorkflow ?? DEFAULT_WORKFLOW
+  const columns = workflow.statuses.map(s => ({
+    status: s.id,
+    label: s.column,
+    ...(STATUS_STYLES[s.id] ?? FALLBACK_STYLE),
+  }))
   const [brainDump, setBrainDump] = useState('')
   const [showBrainDump, setShowBrainDump] = useState(false)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [tagMode, setTagMode] = useState<'any' | 'all'>('any')
+
+  const tagCounts = new Map<string, { tag: string; count: number }>()
+  for (const tag of tasks.flatMap(t => t.tags)) {
+    const entry = tagCounts.get(tag.toLowerCase()) ?? { tag, count: 0 }
+    entry.count++
+    tagCounts.set(tag.toLowerCase(), entry)
+  }
+  const allTags = [...tagCounts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+  const visibleTasks = selectedTags.length === 0
+    ? tasks
+    : tasks.filter(t => tagMode === 'all'
+      ? selectedTags.every(tag => hasTag(t, tag))
+      : selectedTags.some(tag => hasTag(t, tag)))
+
+  function toggleTag(tag: string) {
+    setSelectedTags(current =>
+      current.some(t => t.toLowerCase() === tag.toLowerCase())
+        ? current.filter(t => t.toLowerCase() !== tag.toLowerCase())
+        : [...current, tag])
+  }
 
   function handleBrainDump() {
     if (!brainDump.trim() || !isConnected) return
@@ -39,32 +107,44 @@ export function TaskBoard({ tasks, onSendToAgent, isConnected }: TaskBoardProps)
     onSendToAgent(`create task: ${title}`)
   }
 
-  function handleMoveTask(taskTitle: string, newStatus: TaskStatus) {
+  function handleMoveTask(task: Task, newStatus: TaskStatus) {
     if (!isConnected) return
-    onSendToAgent(`update task "${taskTitle}" status to ${newStatus}`)
+    onSendToAgent(`update task "${task.title}" (id ${task.id}) status to ${newStatus}`)
   }
 
-  function handleCompleteTask(taskTitle: string) {
+  function handleCompleteTask(task: Task) {
     if (!isConnected) return
-    onSendToAgent(`complete task "${taskTitle}"`)
+    onSendToAgent(`complete task "${task.title}" (id ${task.id})`)
   }
 
-  const tasksByStatus = (status: TaskStatus) =>
-    tasks.filter(t => t.status === status)
+  const tasksByStatus = (status: TaskStatus, list: Task[] = tasks) =>
+    list.filter(t => t.status === status)
 
-  const wipCount = tasks.filter(t => t.status === 'working').length
+  const wipLimits = workflow.wipLimits ?? DEFAULT_WORKFLOW.wipLimits
+  const wipAlerts = [
+    ...columns
+      .filter(col => wipLimits.statuses[col.status] !== undefined)
+      .map(col => ({ label: col.label, count: tasksByStatus(col.status).length, limit: wipLimits.statuses[col.status] })),
+    ...Object.entries(wipLimits.assignees).map(([assignee, limit]) => ({
+      label: assignee,
+      count: tasks.filter(t => t.assignee === assignee && wipLimits.assigneeStatuses.includes(t.status)).length,
+      limit,
+    })),
+  ].filter(alert => alert.count > alert.limit)
 
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
           <h2 className="text-xl font-semibold">Tasks</h2>
-          <span className="text-sm text-gray-500">{tasks.length} total</span>
-          {wipCount > 5 && (
-            <span className="text-xs bg-red-500/20 text-red-300 px-2 py-0.5 rounded">
-              WIP limit exceeded ({wipCount}/5)
+          <span className="text-sm text-gray-500">
+            {visibleTasks.length === tasks.length ? `${tasks.length} total` : `${visibleTasks.length} of ${tasks.length}`}
+          </span>
+          {wipAlerts.map(alert => (
+            <span key={alert.label} className="text-xs bg-red-500/20 text-red-300 px-2 py-0.5 rounded">
+              WIP limit exceeded: {alert.label} ({alert.count}/{alert.limit})
             </span>
-          )}
+          ))}
         </div>
         <div className="flex items-center gap-2">
           <button
@@ -113,9 +193,48 @@ export function TaskBoard({ tasks, onSendToAgent, isConnected }: TaskBoardProps)
         </div>
       )}
 
-      <div className="grid grid-cols-5 gap-3">
-        {COLUMNS.map(col => {
-          const colTasks = tasksByStatus(col.status)
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag className="w-3.5 h-3.5 text-gray-500" />
+          {allTags.map(({ tag, count }) => {
+            const selected = selectedTags.some(t => t.toLowerCase() === tag.toLowerCase())
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`text-[11px] px-2 py-0.5 rounded-full transition-colors ${
+                  selected ? 'bg-teal-600/30 text-teal-200' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                #{tag} <span className="text-gray-500">{count}</span>
+              </button>
+            )
+          })}
+          {selectedTags.length > 1 && (
+            <button
+              onClick={() => setTagMode(tagMode === 'any' ? 'all' : 'any')}
+              className="text-[11px] px-2 py-0.5 rounded bg-gray-800 text-gray-300 hover:bg-gray-700"
+            >
+              Match {tagMode}
+            </button>
+          )}
+          {selectedTags.length > 0 && (
+            <button
+              onClick={() => setSelectedTags([])}
+              className="text-[11px] px-2 py-0.5 text-gray-500 hover:text-gray-300"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}
+      >
+        {columns.map(col => {
+          const colTasks = tasksByStatus(col.status, visibleTasks)
           const Icon = col.icon
           return (
             <div key={col.status} className={`bg-gray-900 rounded-lg border-t-2 ${col.color}`}>
@@ -125,21 +244,30 @@ export function TaskBoard({ tasks, onSendToAgent, isConnected }: TaskBoardProps)
                     <Icon className="w-4 h-4 text-gray-400" />
                     <span className="text-sm font-medium">{col.label}</span>
                   </div>
-                  <span className="text-xs text-gray-500 bg-gray-800 px-1.5 py-0.5 rounded">
-                    {colTasks.length}
+                  <span
+                    className={`text-xs px-1.5 py-0.5 rounded ${
+                      tasksByStatus(col.status).length > (wipLimits.statuses[col.status] ?? Infinity)
+                        ? 'bg-red-500/20 text-red-300'
+                        : 'bg-gray-800 text-gray-500'
+                    }`}
+                  >
+                    {tasksByStatus(col.status).length}
+                    {wipLimits.statuses[col.status] !== undefined && `/${wipLimits.statuses[col.status]}`}
                   </span>
                 </div>
               </div>
               <div className="p-2 space-y-2 min-h-[200px]">
                 {colTasks.map(task => (
                   <TaskCard
-                    key={task.filename}
+                    key={task.id}
                     task={task}
+                    workflow={workflow}
                     onMove={handleMoveTask}
                     onComplete={handleCompleteTask}
+                    onTagClick={toggleTag}
                   />
                 ))}
-                {col.status === 'backlog' && (
+                {col.status === workflow.initialStatus && (
                   <QuickAddCard onAdd={handleQuickAdd} />
                 )}
               </div>
@@ -153,14 +281,22 @@ export function TaskBoard({ tasks, onSendToAgent, isConnected }: TaskBoardProps)
 
 function TaskCard({
   task,
+  workflow,
   onMove,
   onComplete,
+  onTagClick,
 }: {
   task: Task
-  onMove: (title: string, status: TaskStatus) => void
-  onComplete: (title: string) => void
+  workflow: Workflow
+  onMove: (task: Task, status: TaskStatus) => void
+  onComplete: (task: Task) => void
+  onTagClick: (tag: string) => void
 }) {
   const [expanded, setExpanded] = useState(false)
+  const closed = task.status === 'archived' || workflow.closed.includes(task.status)
+  const moves = closed
+    ? []
+    : workflow.statuses.filter(s => workflow.active.includes(s.id) && canMove(workflow, task.status, s.id))
 
   return (
     <div
@@ -176,9 +312,22 @@ function TaskCard({
       {task.project && (
         <span className="text-[11px] text-indigo-400 mt-1 inline-block">#{task.project}</span>
       )}
+      {task.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {task.tags.map(tag => (
+            <button
+              key={tag}
+              onClick={e => { e.stopPropagation(); onTagClick(tag) }}
+              className="text-[10px] bg-teal-500/15 text-teal-300 px-1.5 py-0.5 rounded-full hover:bg-teal-500/25"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
       {task.due_date && (
         <span className="text-[11px] text-gray-500 mt-1 block">
-          Due: {new Date(task.due_date).toLocaleDateString()}
+          Due: {formatDueDate(task.due_date)}
         </span>
       )}
       {task.assignee === 'assistant' && (
@@ -186,36 +335,43 @@ function TaskCard({
           AI assigned
         </span>
       )}
+      {task.progress.total > 0 && (
+        <div className="mt-2">
+          <div className="flex items-center justify-between text-[10px] text-gray-500 mb-0.5">
+            <span>Subtasks</span>
+            <span>{task.progress.done}/{task.progress.total}</span>
+          </div>
+          <div className="h-1 bg-gray-700 rounded">
+            <div
+              className="h-1 bg-emerald-500 rounded"
+              style={{ width: `${Math.round((task.progress.done / task.progress.total) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
       {expanded && (
         <div className="mt-2 pt-2 border-t border-gray-700 space-y-2">
           {task.description && (
             <p className="text-xs text-gray-400">{task.description}</p>
           )}
           <div className="flex flex-wrap gap-1">
-            {task.status !== 'done' && (
+            {!closed && canMove(workflow, task.status, workflow.doneStatus) && (
               <button
-                onClick={e => { e.stopPropagation(); onComplete(task.title) }}
+                onClick={e => { e.stopPropagation(); onComplete(task) }}
                 className="text-[11px] px-2 py-0.5 bg-emerald-600/20 text-emerald-300 rounded hover:bg-emerald-600/30"
               >
                 Complete
               </button>
             )}
-            {task.status !== 'working' && task.status !== 'done' && (
+            {moves.map(s => (
               <button
-                onClick={e => { e.stopPropagation(); onMove(task.title, 'working') }}
-                className="text-[11px] px-2 py-0.5 bg-amber-600/20 text-amber-300 rounded hover:bg-amber-600/30"
+                key={s.id}
+                onClick={e => { e.stopPropagation(); onMove(task, s.id) }}
+                className={`text-[11px] px-2 py-0.5 rounded ${(STATUS_STYLES[s.id] ?? FALLBACK_STYLE).button}`}
               >
-                Start
+                Move to {s.column}
               </button>
-            )}
-            {task.status !== 'next' && task.status !== 'done' && (
-              <button
-                onClick={e => { e.stopPropagation(); onMove(task.title, 'next') }}
-                className="text-[11px] px-2 py-0.5 bg-blue-600/20 text-blue-300 rounded hover:bg-blue-600/30"
-              >
-                Move to Next
-              </button>
-            )}
+            ))}
           </div>
         </div>
       )}
@@ -1,8 +1,41 @@
-export type TaskStatus = 'working' | 'next' | 'done' | 'blocked' | 'backlog' | 'archived'
+export type TaskStatus = string
 export type TaskAssignee = 'me' | 'assistant'
 export type TaskPriority = 'low' | 'medium' | 'high'
 
+export interface Subtask {
+  index: number
+  text: string
+  done: boolean
+  level: number
+}
+
+export interface WorkflowStatus {
+  id: TaskStatus
+  column: string
+}
+
+export interface WipLimits {
+  statuses: Record<TaskStatus, number>
+  assignees: Record<string, number>
+  assigneeStatuses: TaskStatus[]
+  mode: 'reject' | 'warn'
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[]
+  active: TaskStatus[]
+  closed: TaskStatus[]
+  startedStatuses: TaskStatus[]
+  transitions: Record<TaskStatus, TaskStatus[]> | null
+  initialStatus: TaskStatus
+  doneStatus: TaskStatus
+  blockedStatus: TaskStatus | null
+  unblockedStatus: TaskStatus
+  wipLimits: WipLimits
+}
+
 export interface Task {
+  id: string
   title: string
   filename: string
   status: TaskStatus
@@ -15,6 +48,12 @@ export interface Task {
   created_at: string
   completed_at: string | null
   tags: string[]
+  recurrence: string | null
+  next_occurrence: string | null
+  previous_occurrence: string | null
+  depends_on: string[]
+  subtasks: Subtask[]
+  progress: { done: number; total: number }
   description: string | null
 }
 